@@ -0,0 +1,229 @@
+import express from "express";
+import cors from "cors";
+
+const app = express();
+app.use(cors());
+app.use(express.json());
+
+type EventType =
+  | "TWO_POINTER"
+  | "THREE_POINTER"
+  | "FREE_THROW_MADE"
+  | "FREE_THROW_MISSED"
+  | "MISSED_SHOT"
+  | "REBOUND"
+  | "TURNOVER"
+  | "FOUL"
+  | "TIMEOUT";
+
+type Team = "home" | "away";
+type Phase = "QUARTER" | "BREAK" | "HALFTIME" | "OVERTIME";
+
+interface Game {
+  gameId: string;
+  home: string;
+  away: string;
+  score: { home: number; away: number };
+  // 5 and up are overtimes
+  quarter: number;
+  // Time remaining in the quarter ("MM:SS")
+  clock: string;
+  phase: Phase;
+  status: string;
+  events: Array<{
+    id: string;
+    type: EventType;
+    team: Team;
+    player?: number;
+    points?: number;
+    quarter: number;
+    clock: string;
+    time: string;
+  }>;
+}
+
+const QUARTER_SECONDS = 12 * 60;
+const OVERTIME_SECONDS = 5 * 60;
+const BREAK_TICKS = 1;
+const HALFTIME_TICKS = 3;
+const ROSTER = [0, 3, 7, 11, 13, 23, 30, 33, 35, 44];
+
+// Simulator-only state that isn't part of the feed
+const breakTicks: { [gameId: string]: number } = {};
+
+function toClock(seconds: number): string {
+  const safe = Math.max(0, seconds);
+  return `${String(Math.floor(safe / 60)).padStart(2, "0")}:${String(safe % 60).padStart(2, "0")}`;
+}
+
+function fromClock(clock: string): number {
+  const [minutes, seconds] = clock.split(":").map(Number);
+  return minutes * 60 + seconds;
+}
+
+function other(team: Team): Team {
+  return team === "home" ? "away" : "home";
+}
+
+function pick<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+function newGame(gameId: string, home: string, away: string, status: string): Game {
+  return {
+    gameId,
+    home,
+    away,
+    score: { home: 0, away: 0 },
+    quarter: 1,
+    clock: toClock(QUARTER_SECONDS),
+    phase: "QUARTER",
+    status,
+    events: [],
+  };
+}
+
+let games: Game[] = [];
+for (let i = 1; i <= 3; i++) {
+  games.push(newGame(`B${i}`, `Team ${i}A`, `Team ${i}B`, Math.random() > 0.5 ? "LIVE" : "SCHEDULED"));
+}
+
+function addEvent(game: Game, type: EventType, team: Team, extra: { player?: number; points?: number } = {}) {
+  if (extra.points) {
+    game.score[team] += extra.points;
+  }
+
+  game.events.push({
+    id: `${game.gameId}-${game.events.length + 1}`,
+    type,
+    team,
+    ...extra,
+    quarter: game.quarter,
+    clock: game.clock,
+    time: new Date().toISOString(),
+  });
+}
+
+function freeThrows(game: Game, team: Team, attempts: number) {
+  const shooter = pick(ROSTER);
+  for (let i = 0; i < attempts; i++) {
+    if (Math.random() > 0.25) {
+      addEvent(game, "FREE_THROW_MADE", team, { player: shooter, points: 1 });
+    } else {
+      addEvent(game, "FREE_THROW_MISSED", team, { player: shooter });
+    }
+  }
+}
+
+// Team fouls in the current quarter; from the fifth on, the other team shoots
+function teamFouls(game: Game, team: Team): number {
+  return game.events.filter((e) => e.type === "FOUL" && e.team === team && e.quarter === game.quarter).length;
+}
+
+function playPossession(game: Game) {
+  // Each update covers 15-45 seconds of game time
+  const elapsed = Math.floor(Math.random() * 31) + 15;
+  game.clock = toClock(fromClock(game.clock) - elapsed);
+
+  const rand = Math.random();
+  const team: Team = Math.random() > 0.5 ? "home" : "away";
+  const player = pick(ROSTER);
+
+  // TWO_POINTER (30% chance)
+  if (rand > 0.7) {
+    addEvent(game, "TWO_POINTER", team, { player, points: 2 });
+  }
+  // THREE_POINTER (12% chance)
+  else if (rand > 0.58) {
+    addEvent(game, "THREE_POINTER", team, { player, points: 3 });
+  }
+  // FOUL (15% chance); shooting fouls and the bonus give free throws
+  else if (rand > 0.43) {
+    const fouler = other(team);
+    addEvent(game, "FOUL", fouler, { player: pick(ROSTER) });
+    if (Math.random() > 0.5 || teamFouls(game, fouler) >= 5) {
+      freeThrows(game, team, Math.random() > 0.9 ? 3 : 2);
+    }
+  }
+  // MISSED_SHOT + REBOUND (20% chance)
+  else if (rand > 0.23) {
+    addEvent(game, "MISSED_SHOT", team, { player });
+    addEvent(game, "REBOUND", Math.random() > 0.3 ? other(team) : team, { player: pick(ROSTER) });
+  }
+  // TURNOVER (10% chance)
+  else if (rand > 0.13) {
+    addEvent(game, "TURNOVER", team, { player });
+  }
+  // TIMEOUT (3% chance)
+  else if (rand > 0.1) {
+    addEvent(game, "TIMEOUT", team);
+  }
+
+  if (fromClock(game.clock) === 0) {
+    endQuarter(game);
+  }
+}
+
+function endQuarter(game: Game) {
+  const tied = game.score.home === game.score.away;
+
+  if (game.quarter < 4) {
+    game.phase = game.quarter === 2 ? "HALFTIME" : "BREAK";
+    breakTicks[game.gameId] = game.quarter === 2 ? HALFTIME_TICKS : BREAK_TICKS;
+  } else if (tied) {
+    // Overtime until someone leads at the end of a period
+    game.phase = "BREAK";
+    breakTicks[game.gameId] = BREAK_TICKS;
+  } else {
+    game.status = "FINAL";
+  }
+}
+
+// Update games at random intervals (1-10 seconds)
+function updateGames() {
+  games.forEach((game, index) => {
+    // Start scheduled games randomly
+    if (game.status === "SCHEDULED" && Math.random() > 0.7) {
+      game.status = "LIVE";
+    }
+
+    if (game.status === "LIVE") {
+      if (game.phase === "BREAK" || game.phase === "HALFTIME") {
+        breakTicks[game.gameId]--;
+        if (breakTicks[game.gameId] <= 0) {
+          delete breakTicks[game.gameId];
+          game.quarter++;
+          game.phase = game.quarter > 4 ? "OVERTIME" : "QUARTER";
+          game.clock = toClock(game.quarter > 4 ? OVERTIME_SECONDS : QUARTER_SECONDS);
+        }
+      } else {
+        playPossession(game);
+      }
+    }
+
+    // Reset finished games to create new matches
+    else if (game.status === "FINAL" && Math.random() > 0.8) {
+      games[index] = newGame(game.gameId, game.home, game.away, "SCHEDULED");
+    }
+  });
+
+  // Schedule next update with random delay (1-10 seconds)
+  const randomDelay = Math.floor(Math.random() * 9000) + 1000;
+  setTimeout(updateGames, randomDelay);
+}
+
+// Start updating
+updateGames();
+
+app.get("/api/games", (req, res) => {
+  res.json({ games });
+});
+
+app.get("/api/games/:id", (req, res) => {
+  const game = games.find((g) => g.gameId === req.params.id);
+  res.json(game || { error: "Not found" });
+});
+
+app.listen(3004, () => {
+  console.log("🏀 Basketball API running on port 3004");
+});
@@ -12,126 +12,206 @@ type EventType =
   | "SAVE"
   | "HIT"
   | "FACEOFF"
-  | "POWER_PLAY";
+  | "POWER_PLAY"
+  | "SHOOTOUT_GOAL"
+  | "SHOOTOUT_MISS";
+
+type Team = "team1" | "team2";
+type Phase = "REGULATION" | "INTERMISSION" | "OVERTIME" | "SHOOTOUT";
 
 interface Game {
   id: string;
   teams: [string, string];
   score: { team1: number; team2: number };
   period: number;
+  // Time remaining in the period ("MM:SS")
+  clock: string;
+  phase: Phase;
   status: string;
   events: Array<{
+    id: string;
     type: EventType;
     team?: string;
     period: number;
+    clock: string;
+    duration?: number;
+    player?: number;
     time: string;
   }>;
 }
 
-let games: Game[] = [];
-for (let i = 1; i <= 3; i++) {
-  games.push({
-    id: `H${i}`,
-    teams: [`Team ${i}A`, `Team ${i}B`],
+const PERIOD_SECONDS = 20 * 60;
+const OVERTIME_SECONDS = 5 * 60;
+const INTERMISSION_TICKS = 2;
+const SHOOTOUT_ROUNDS = 3;
+
+// Simulator-only state that isn't part of the feed
+const intermissionTicks: { [id: string]: number } = {};
+const shootouts: { [id: string]: { team1: number; team2: number; attempts: number } } = {};
+
+function toClock(seconds: number): string {
+  const safe = Math.max(0, seconds);
+  return `${Math.floor(safe / 60)}:${String(safe % 60).padStart(2, "0")}`;
+}
+
+function fromClock(clock: string): number {
+  const [minutes, seconds] = clock.split(":").map(Number);
+  return minutes * 60 + seconds;
+}
+
+function other(team: Team): Team {
+  return team === "team1" ? "team2" : "team1";
+}
+
+function newGame(id: string, teams: [string, string], status: string): Game {
+  return {
+    id,
+    teams,
     score: { team1: 0, team2: 0 },
     period: 1,
-    status: Math.random() > 0.5 ? "LIVE" : "SCHEDULED",
+    clock: toClock(PERIOD_SECONDS),
+    phase: "REGULATION",
+    status,
     events: [],
+  };
+}
+
+let games: Game[] = [];
+for (let i = 1; i <= 3; i++) {
+  games.push(
+    newGame(`H${i}`, [`Team ${i}A`, `Team ${i}B`], Math.random() > 0.5 ? "LIVE" : "SCHEDULED")
+  );
+}
+
+function addEvent(game: Game, type: EventType, team: Team, extra: { duration?: number; player?: number } = {}) {
+  game.events.push({
+    id: `${game.id}-${game.events.length + 1}`,
+    type,
+    team,
+    period: game.period,
+    clock: game.clock,
+    ...extra,
+    time: new Date().toISOString(),
   });
 }
 
+function playShootoutAttempt(game: Game) {
+  const shootout = shootouts[game.id];
+  const team: Team = shootout.attempts % 2 === 0 ? "team1" : "team2";
+
+  if (Math.random() > 0.67) {
+    shootout[team]++;
+    addEvent(game, "SHOOTOUT_GOAL", team);
+  } else {
+    addEvent(game, "SHOOTOUT_MISS", team);
+  }
+  shootout.attempts++;
+
+  // Decided once a side can no longer catch up, then by sudden-death rounds
+  const taken = { team1: Math.ceil(shootout.attempts / 2), team2: Math.floor(shootout.attempts / 2) };
+  const left = (t: Team) => Math.max(0, SHOOTOUT_ROUNDS - taken[t]);
+  const decided =
+    shootout.attempts < SHOOTOUT_ROUNDS * 2
+      ? shootout.team1 + left("team1") < shootout.team2 ||
+        shootout.team2 + left("team2") < shootout.team1
+      : shootout.attempts % 2 === 0 && shootout.team1 !== shootout.team2;
+
+  if (decided) {
+    // The shootout winner is credited with one goal
+    game.score[shootout.team1 > shootout.team2 ? "team1" : "team2"]++;
+    game.status = "FINAL";
+    delete shootouts[game.id];
+  }
+}
+
+function endPeriod(game: Game) {
+  const tied = game.score.team1 === game.score.team2;
+
+  if (game.period < 3 || (game.period === 3 && tied)) {
+    game.phase = "INTERMISSION";
+    intermissionTicks[game.id] = INTERMISSION_TICKS;
+  } else if (game.period > 3 && tied) {
+    game.phase = "SHOOTOUT";
+    shootouts[game.id] = { team1: 0, team2: 0, attempts: 0 };
+  } else {
+    game.status = "FINAL";
+  }
+}
+
+function playPeriod(game: Game) {
+  // Each update covers 30-90 seconds of game time
+  const elapsed = Math.floor(Math.random() * 61) + 30;
+  game.clock = toClock(fromClock(game.clock) - elapsed);
+
+  const rand = Math.random();
+  const team: Team = Math.random() > 0.5 ? "team1" : "team2";
+  const player = Math.floor(Math.random() * 98) + 1;
+
+  // GOAL (8% chance)
+  if (rand > 0.92) {
+    game.score[team]++;
+    addEvent(game, "GOAL", team, { player });
+
+    // Overtime is sudden death
+    if (game.phase === "OVERTIME") {
+      game.status = "FINAL";
+      return;
+    }
+  }
+  // SHOT (15% chance)
+  else if (rand > 0.77) {
+    addEvent(game, "SHOT", team, { player });
+  }
+  // SAVE (10% chance)
+  else if (rand > 0.67) {
+    addEvent(game, "SAVE", other(team)); // Opposite team's goalie
+  }
+  // PENALTY (5% chance), mostly minors; the other team goes on the power play
+  else if (rand > 0.62) {
+    addEvent(game, "PENALTY", team, { duration: Math.random() > 0.9 ? 5 : 2, player });
+    addEvent(game, "POWER_PLAY", other(team));
+  }
+  // HIT (8% chance)
+  else if (rand > 0.54) {
+    addEvent(game, "HIT", team, { player });
+  }
+  // FACEOFF (6% chance)
+  else if (rand > 0.48) {
+    addEvent(game, "FACEOFF", team, { player });
+  }
+
+  if (fromClock(game.clock) === 0) {
+    endPeriod(game);
+  }
+}
+
 // Update games at random intervals (1-10 seconds)
 function updateGames() {
-  games.forEach((game) => {
+  games.forEach((game, index) => {
     // Start scheduled games randomly
     if (game.status === "SCHEDULED" && Math.random() > 0.7) {
       game.status = "LIVE";
-      game.period = 1;
     }
 
     if (game.status === "LIVE") {
-      const rand = Math.random();
-      const team = Math.random() > 0.5 ? "team1" : "team2";
-
-      // GOAL (8% chance)
-      if (rand > 0.92) {
-        game.score[team]++;
-        game.events.push({
-          type: "GOAL",
-          team,
-          period: game.period,
-          time: new Date().toISOString(),
-        });
-      }
-      // SHOT (15% chance)
-      else if (rand > 0.77) {
-        game.events.push({
-          type: "SHOT",
-          team,
-          period: game.period,
-          time: new Date().toISOString(),
-        });
-      }
-      // SAVE (10% chance)
-      else if (rand > 0.67) {
-        game.events.push({
-          type: "SAVE",
-          team: team === "team1" ? "team2" : "team1", // Opposite team's goalie
-          period: game.period,
-          time: new Date().toISOString(),
-        });
-      }
-      // PENALTY (5% chance)
-      else if (rand > 0.62) {
-        game.events.push({
-          type: "PENALTY",
-          team,
-          period: game.period,
-          time: new Date().toISOString(),
-        });
-      }
-      // HIT (8% chance)
-      else if (rand > 0.54) {
-        game.events.push({
-          type: "HIT",
-          team,
-          period: game.period,
-          time: new Date().toISOString(),
-        });
-      }
-      // FACEOFF (6% chance)
-      else if (rand > 0.48) {
-        game.events.push({
-          type: "FACEOFF",
-          team,
-          period: game.period,
-          time: new Date().toISOString(),
-        });
-      }
-      // POWER_PLAY (3% chance)
-      else if (rand > 0.45) {
-        game.events.push({
-          type: "POWER_PLAY",
-          team,
-          period: game.period,
-          time: new Date().toISOString(),
-        });
-      }
-
-      // Advance period
-      if (rand > 0.98 && game.period < 3) {
-        game.period++;
-      } else if (game.period >= 3 && rand > 0.99) {
-        game.status = "FINAL";
+      if (game.phase === "INTERMISSION") {
+        intermissionTicks[game.id]--;
+        if (intermissionTicks[game.id] <= 0) {
+          delete intermissionTicks[game.id];
+          game.period++;
+          game.phase = game.period > 3 ? "OVERTIME" : "REGULATION";
+          game.clock = toClock(game.period > 3 ? OVERTIME_SECONDS : PERIOD_SECONDS);
+        }
+      } else if (game.phase === "SHOOTOUT") {
+        playShootoutAttempt(game);
+      } else {
+        playPeriod(game);
       }
     }
 
     // Reset finished games to create new matches
-    if (game.status === "FINAL" && Math.random() > 0.8) {
-      game.status = "SCHEDULED";
-      game.period = 1;
-      game.score = { team1: 0, team2: 0 };
-      game.events = [];
+    else if (game.status === "FINAL" && Math.random() > 0.8) {
+      games[index] = newGame(game.id, game.teams, "SCHEDULED");
     }
   });
 
@@ -11,7 +11,12 @@ type EventType =
   | "RED_CARD"
   | "CORNER"
   | "SUBSTITUTION"
-  | "PENALTY";
+  | "PENALTY"
+  | "SHOOTOUT_GOAL"
+  | "SHOOTOUT_MISS";
+
+type Team = "home" | "away";
+type Phase = "FIRST_HALF" | "HALF_TIME" | "SECOND_HALF" | "EXTRA_TIME" | "PENALTIES";
 
 interface Match {
   matchId: string;
@@ -19,101 +24,234 @@ interface Match {
   awayTeam: string;
   score: { home: number; away: number };
   minute: number;
+  // Stoppage minutes played at the end of a half
+  addedTime: number;
+  phase: Phase;
   status: string;
   events: Array<{
+    id: string;
     type: EventType;
     minute: number;
+    addedTime?: number;
     team: string;
+    player?: number;
+    playerIn?: number;
     time: string;
   }>;
 }
 
-let matches: Match[] = [];
-for (let i = 1; i <= 3; i++) {
-  matches.push({
-    matchId: `M${i}`,
-    homeTeam: `Team ${i}A`,
-    awayTeam: `Team ${i}B`,
+const MAX_SUBSTITUTIONS = 5;
+const HALF_TIME_TICKS = 2;
+const SHOOTOUT_ROUNDS = 5;
+
+// Simulator-only state that isn't part of the feed
+interface Squad {
+  onPitch: number[];
+  bench: number[];
+  booked: number[];
+  substitutions: number;
+}
+
+interface MatchState {
+  // Cup ties go to extra time and penalties when level
+  knockout: boolean;
+  announcedAddedTime: number;
+  halfTimeTicks: number;
+  squads: { home: Squad; away: Squad };
+  shootout: { home: number; away: number; kicks: number };
+}
+
+const state: { [id: string]: MatchState } = {};
+
+function newSquad(): Squad {
+  return {
+    onPitch: Array.from({ length: 11 }, (_, i) => i + 1),
+    bench: Array.from({ length: 9 }, (_, i) => i + 12),
+    booked: [],
+    substitutions: 0,
+  };
+}
+
+function newMatch(matchId: string, homeTeam: string, awayTeam: string, status: string): Match {
+  state[matchId] = {
+    knockout: matchId === "M3",
+    announcedAddedTime: 0,
+    halfTimeTicks: 0,
+    squads: { home: newSquad(), away: newSquad() },
+    shootout: { home: 0, away: 0, kicks: 0 },
+  };
+
+  return {
+    matchId,
+    homeTeam,
+    awayTeam,
     score: { home: 0, away: 0 },
     minute: 0,
-    status: Math.random() > 0.5 ? "LIVE" : "SCHEDULED",
+    addedTime: 0,
+    phase: "FIRST_HALF",
+    status,
     events: [],
+  };
+}
+
+let matches: Match[] = [];
+for (let i = 1; i <= 3; i++) {
+  matches.push(
+    newMatch(`M${i}`, `Team ${i}A`, `Team ${i}B`, Math.random() > 0.5 ? "LIVE" : "SCHEDULED")
+  );
+}
+
+function pick<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+function addEvent(match: Match, type: EventType, team: Team, extra: { player?: number; playerIn?: number } = {}) {
+  match.events.push({
+    id: `${match.matchId}-${match.events.length + 1}`,
+    type,
+    minute: match.minute,
+    ...(match.addedTime > 0 && { addedTime: match.addedTime }),
+    team,
+    ...extra,
+    time: new Date().toISOString(),
   });
 }
 
+function sendOff(squad: Squad, player: number) {
+  squad.onPitch = squad.onPitch.filter((p) => p !== player);
+}
+
+function playMinute(match: Match) {
+  const squads = state[match.matchId].squads;
+  const rand = Math.random();
+  const team: Team = Math.random() > 0.5 ? "home" : "away";
+  const squad = squads[team];
+  const player = pick(squad.onPitch);
+
+  // GOAL (10% chance)
+  if (rand > 0.9) {
+    match.score[team]++;
+    addEvent(match, "GOAL", team, { player });
+  }
+  // YELLOW_CARD (5% chance); a second booking sends the player off
+  else if (rand > 0.85) {
+    addEvent(match, "YELLOW_CARD", team, { player });
+    if (squad.booked.includes(player)) {
+      sendOff(squad, player);
+    } else {
+      squad.booked.push(player);
+    }
+  }
+  // CORNER (8% chance)
+  else if (rand > 0.77) {
+    addEvent(match, "CORNER", team);
+  }
+  // SUBSTITUTION (3% chance)
+  else if (rand > 0.74) {
+    if (squad.substitutions < MAX_SUBSTITUTIONS && squad.bench.length > 0) {
+      const playerIn = squad.bench.shift() as number;
+      squad.onPitch = squad.onPitch.map((p) => (p === player ? playerIn : p));
+      squad.substitutions++;
+      addEvent(match, "SUBSTITUTION", team, { player, playerIn });
+    }
+  }
+  // RED_CARD (1% chance)
+  else if (rand > 0.73) {
+    addEvent(match, "RED_CARD", team, { player });
+    sendOff(squad, player);
+  }
+}
+
+// Advances the clock one minute, into stoppage time at the end of a half.
+// Returns false once the half is over.
+function advanceClock(match: Match): boolean {
+  const matchState = state[match.matchId];
+  const halfEnd = match.phase === "FIRST_HALF" ? 45 : match.phase === "SECOND_HALF" ? 90 : 120;
+
+  if (match.minute < halfEnd) {
+    match.minute++;
+    if (match.minute === halfEnd) {
+      matchState.announcedAddedTime = Math.floor(Math.random() * 5) + 1;
+    }
+    return true;
+  }
+
+  if (match.addedTime < matchState.announcedAddedTime) {
+    match.addedTime++;
+    return true;
+  }
+
+  // Whistle
+  match.addedTime = 0;
+  const level = match.score.home === match.score.away;
+
+  if (match.phase === "FIRST_HALF") {
+    match.phase = "HALF_TIME";
+    matchState.halfTimeTicks = HALF_TIME_TICKS;
+  } else if (match.phase === "SECOND_HALF" && level && matchState.knockout) {
+    match.phase = "EXTRA_TIME";
+  } else if (match.phase === "EXTRA_TIME" && level) {
+    match.phase = "PENALTIES";
+  } else {
+    match.status = "FINISHED";
+  }
+  return false;
+}
+
+function takePenalty(match: Match) {
+  const shootout = state[match.matchId].shootout;
+  const team: Team = shootout.kicks % 2 === 0 ? "home" : "away";
+  const player = pick(state[match.matchId].squads[team].onPitch);
+
+  if (Math.random() > 0.25) {
+    shootout[team]++;
+    addEvent(match, "SHOOTOUT_GOAL", team, { player });
+  } else {
+    addEvent(match, "SHOOTOUT_MISS", team, { player });
+  }
+  shootout.kicks++;
+
+  // Decided once a side can no longer catch up, then by sudden-death rounds
+  const taken = { home: Math.ceil(shootout.kicks / 2), away: Math.floor(shootout.kicks / 2) };
+  const left = (t: Team) => Math.max(0, SHOOTOUT_ROUNDS - taken[t]);
+  const decided =
+    shootout.kicks < SHOOTOUT_ROUNDS * 2
+      ? shootout.home + left("home") < shootout.away || shootout.away + left("away") < shootout.home
+      : shootout.kicks % 2 === 0 && shootout.home !== shootout.away;
+
+  if (decided) {
+    match.status = "FINISHED";
+  }
+}
+
 // Update matches at random intervals (1-10 seconds)
 function updateMatches() {
-  matches.forEach((match) => {
+  matches.forEach((match, index) => {
     // Start scheduled matches randomly
     if (match.status === "SCHEDULED" && Math.random() > 0.7) {
       match.status = "LIVE";
-      match.minute = 0;
     }
 
     if (match.status === "LIVE") {
-      match.minute++;
-
-      const rand = Math.random();
-      const team = Math.random() > 0.5 ? "home" : "away";
-
-      // GOAL (10% chance)
-      if (rand > 0.9) {
-        match.score[team]++;
-        match.events.push({
-          type: "GOAL",
-          minute: match.minute,
-          team,
-          time: new Date().toISOString(),
-        });
-      }
-      // YELLOW_CARD (5% chance)
-      else if (rand > 0.85) {
-        match.events.push({
-          type: "YELLOW_CARD",
-          minute: match.minute,
-          team,
-          time: new Date().toISOString(),
-        });
-      }
-      // CORNER (8% chance)
-      else if (rand > 0.77) {
-        match.events.push({
-          type: "CORNER",
-          minute: match.minute,
-          team,
-          time: new Date().toISOString(),
-        });
-      }
-      // SUBSTITUTION (3% chance)
-      else if (rand > 0.74) {
-        match.events.push({
-          type: "SUBSTITUTION",
-          minute: match.minute,
-          team,
-          time: new Date().toISOString(),
-        });
-      }
-      // RED_CARD (1% chance)
-      else if (rand > 0.73) {
-        match.events.push({
-          type: "RED_CARD",
-          minute: match.minute,
-          team,
-          time: new Date().toISOString(),
-        });
-      }
+      const matchState = state[match.matchId];
 
-      if (match.minute >= 90) {
-        match.status = "FINISHED";
+      if (match.phase === "HALF_TIME") {
+        matchState.halfTimeTicks--;
+        if (matchState.halfTimeTicks <= 0) {
+          match.phase = "SECOND_HALF";
+        }
+      } else if (match.phase === "PENALTIES") {
+        takePenalty(match);
+      } else {
+        if (advanceClock(match)) {
+          playMinute(match);
+        }
       }
     }
 
     // Reset finished matches to create new games
-    if (match.status === "FINISHED" && Math.random() > 0.8) {
-      match.status = "SCHEDULED";
-      match.minute = 0;
-      match.score = { home: 0, away: 0 };
-      match.events = [];
+    else if (match.status === "FINISHED" && Math.random() > 0.8) {
+      matches[index] = newMatch(match.matchId, match.homeTeam, match.awayTeam, "SCHEDULED");
     }
   });
 
@@ -13,13 +13,24 @@ type EventType =
   | "CHALLENGE"
   | "UNFORCED_ERROR";
 
+type Point = "0" | "15" | "30" | "40" | "AD";
+
 interface Game {
   gameId: string;
   player1: string;
   player2: string;
-  setScore: Array<{ p1: number; p2: number }>;
+  setScore: Array<{
+    p1: number;
+    p2: number;
+    tiebreak?: { p1: number; p2: number };
+  }>;
+  // Points in the current game (absent during a tiebreak)
+  currentGame?: { p1: Point; p2: Point };
+  server: 1 | 2;
+  bestOf: 3 | 5;
   status: string;
   events: Array<{
+    id: string;
     type: EventType;
     player: number;
     time: string;
@@ -33,11 +44,76 @@ for (let i = 1; i <= 3; i++) {
     player1: `Player ${i}A`,
     player2: `Player ${i}B`,
     setScore: [{ p1: 0, p2: 0 }],
+    currentGame: { p1: "0", p2: "0" },
+    server: 1,
+    bestOf: 3,
     status: Math.random() > 0.5 ? "IN_PROGRESS" : "SCHEDULED",
     events: [],
   });
 }
 
+const NEXT_POINT: { [point: string]: Point } = { "0": "15", "15": "30", "30": "40" };
+
+function isSetComplete(set: { p1: number; p2: number }): boolean {
+  const { p1, p2 } = set;
+  if ((p1 >= 6 || p2 >= 6) && Math.abs(p1 - p2) >= 2) return true;
+  return (p1 === 7 && p2 === 6) || (p1 === 6 && p2 === 7);
+}
+
+function winGame(game: Game, winner: "p1" | "p2") {
+  const currentSet = game.setScore[game.setScore.length - 1];
+  currentSet[winner]++;
+  game.server = game.server === 1 ? 2 : 1;
+
+  if (isSetComplete(currentSet)) {
+    const setsWon = game.setScore.filter(
+      (set) => isSetComplete(set) && set[winner] > set[winner === "p1" ? "p2" : "p1"]
+    ).length;
+
+    if (setsWon >= Math.ceil(game.bestOf / 2)) {
+      game.status = "COMPLETED";
+      game.currentGame = undefined;
+      return;
+    }
+
+    game.setScore.push({ p1: 0, p2: 0 });
+  }
+
+  const newSet = game.setScore[game.setScore.length - 1];
+  if (newSet.p1 === 6 && newSet.p2 === 6) {
+    // Tiebreak: first to 7 points, 2 clear
+    newSet.tiebreak = { p1: 0, p2: 0 };
+    game.currentGame = undefined;
+  } else {
+    game.currentGame = { p1: "0", p2: "0" };
+  }
+}
+
+function winPoint(game: Game, winner: "p1" | "p2") {
+  const loser = winner === "p1" ? "p2" : "p1";
+  const currentSet = game.setScore[game.setScore.length - 1];
+
+  if (currentSet.tiebreak) {
+    currentSet.tiebreak[winner]++;
+    const tb = currentSet.tiebreak;
+    if (tb[winner] >= 7 && tb[winner] - tb[loser] >= 2) {
+      winGame(game, winner);
+    }
+    return;
+  }
+
+  const points = game.currentGame!;
+  if (points[winner] === "AD" || (points[winner] === "40" && points[loser] !== "40" && points[loser] !== "AD")) {
+    winGame(game, winner);
+  } else if (points[loser] === "AD") {
+    points[loser] = "40"; // Back to deuce
+  } else if (points[winner] === "40") {
+    points[winner] = "AD";
+  } else {
+    points[winner] = NEXT_POINT[points[winner]];
+  }
+}
+
 // Update games at random intervals (1-10 seconds)
 function updateGames() {
   games.forEach((game) => {
@@ -50,8 +126,7 @@ function updateGames() {
       const rand = Math.random();
 
       if (rand > 0.75) {
-        const player = Math.random() > 0.5 ? 1 : 2;
-        const currentSet = game.setScore[game.setScore.length - 1];
+        let player: 1 | 2 = Math.random() > 0.5 ? 1 : 2;
 
         // Different event types
         let eventType: EventType = "WINNER";
@@ -61,24 +136,25 @@ function updateGames() {
         else if (rand > 0.8) eventType = "UNFORCED_ERROR";
         else if (rand > 0.77) eventType = "CHALLENGE";
 
+        // Only the server hits aces and double faults
+        if (eventType === "ACE" || eventType === "DOUBLE_FAULT") {
+          player = game.server;
+        }
+
         game.events.push({
+          id: `${game.gameId}-${game.events.length + 1}`,
           type: eventType,
           player,
           time: new Date().toISOString(),
         });
 
-        // Update score on certain events
+        // Award the point
+        const playerKey = player === 1 ? "p1" : "p2";
+        const opponentKey = player === 1 ? "p2" : "p1";
         if (["ACE", "WINNER", "BREAK_POINT"].includes(eventType)) {
-          if (player === 1) currentSet.p1++;
-          else currentSet.p2++;
-
-          if (currentSet.p1 >= 6 || currentSet.p2 >= 6) {
-            if (game.setScore.length < 2) {
-              game.setScore.push({ p1: 0, p2: 0 });
-            } else {
-              game.status = "COMPLETED";
-            }
-          }
+          winPoint(game, playerKey);
+        } else if (["DOUBLE_FAULT", "UNFORCED_ERROR"].includes(eventType)) {
+          winPoint(game, opponentKey);
         }
       }
     }
@@ -87,6 +163,8 @@ function updateGames() {
     if (game.status === "COMPLETED" && Math.random() > 0.8) {
       game.status = "SCHEDULED";
       game.setScore = [{ p1: 0, p2: 0 }];
+      game.currentGame = { p1: "0", p2: "0" };
+      game.server = 1;
       game.events = [];
     }
   });
@@ -0,0 +1,47 @@
+import { EventEmitter } from 'events';
+import { Game } from '../../domain/entities/Game';
+import { IEventDocument } from '../../infrastructure/persistence/schemas/EventSchema';
+
+export interface GameUpdate {
+  game: Game;
+  events: IEventDocument[];
+}
+
+export type GameUpdateListener = (update: GameUpdate) => void;
+
+const GAME_UPDATED = 'game-updated';
+
+// In-process fan-out of committed game changes to push channels (SSE, WebSocket).
+// Only committed events are published, so listeners never see a rolled back change.
+export class GameEventBus {
+  private readonly emitter = new EventEmitter();
+
+  constructor() {
+    // Every connected client registers a listener
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(update: GameUpdate): void {
+    if (update.events.length === 0) {
+      return;
+    }
+
+    try {
+      this.emitter.emit(GAME_UPDATED, update);
+    } catch (error) {
+      console.error('Error in game update listener:', error);
+    }
+  }
+
+  // Returns an unsubscribe function
+  subscribe(listener: GameUpdateListener): () => void {
+    this.emitter.on(GAME_UPDATED, listener);
+    return () => {
+      this.emitter.off(GAME_UPDATED, listener);
+    };
+  }
+
+  listenerCount(): number {
+    return this.emitter.listenerCount(GAME_UPDATED);
+  }
+}
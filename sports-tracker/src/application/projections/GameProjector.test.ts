@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameProjector } from './GameProjector';
+
+test('keeps the points a play scored', () => {
+  const timestamp = new Date('2026-01-01T20:00:00Z');
+  const game = new GameProjector().project([
+    {
+      eventType: 'GAME_CREATED',
+      aggregateId: 'g1',
+      timestamp,
+      payload: { sport: 'BASKETBALL', team1: 'Home', team2: 'Away', status: 'LIVE' }
+    },
+    {
+      eventType: 'THREE_POINTER',
+      aggregateId: 'g1',
+      timestamp,
+      sourceEventId: 'B1-1',
+      payload: { side: 'TEAM1', team: 'Home', points: 4, period: 1 }
+    },
+    {
+      eventType: 'TIMEOUT',
+      aggregateId: 'g1',
+      timestamp,
+      sourceEventId: 'B1-2',
+      payload: { side: 'TEAM2', team: 'Away', period: 1 }
+    }
+  ]);
+
+  const [play, timeout] = game!.getEvents();
+  assert.equal(play.points, 4);
+  assert.equal('points' in timeout, false);
+});
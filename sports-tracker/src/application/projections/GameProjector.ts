@@ -0,0 +1,140 @@
+import { Game, GameEvent, SportType } from '../../domain/entities/Game';
+import { Score } from '../../domain/value-objects/Score';
+import { GameStatus, GameStatusEnum } from '../../domain/value-objects/GameStatus';
+import { SportStateJSON } from '../../domain/value-objects/SportState';
+import { sportStateFromJSON } from '../../domain/value-objects/SportStateFactory';
+
+interface ProjectedState {
+  gameId: string;
+  providerGameId: string;
+  sport: string;
+  competition?: string;
+  team1: string;
+  team2: string;
+  team1Id?: string;
+  team2Id?: string;
+  score1: number;
+  score2: number;
+  sportState?: SportStateJSON;
+  status: GameStatusEnum;
+  currentTime: string;
+  events: GameEvent[];
+  lastUpdated: Date;
+}
+
+export class GameProjector {
+  // Folds a game's event stream (ordered by version) back into a Game aggregate.
+  // Returns null when the stream has no GAME_CREATED event to start from.
+  project(events: any[]): Game | null {
+    let state: ProjectedState | null = null;
+
+    for (const event of events) {
+      if (event.eventType === 'GAME_CREATED') {
+        state = this.initialState(event);
+        continue;
+      }
+
+      if (!state) {
+        continue;
+      }
+
+      this.apply(state, event);
+      state.lastUpdated = event.timestamp;
+    }
+
+    if (!state) {
+      return null;
+    }
+
+    return new Game(
+      state.gameId,
+      state.sport as SportType,
+      [
+        { name: state.team1, side: 'TEAM1', teamId: state.team1Id },
+        { name: state.team2, side: 'TEAM2', teamId: state.team2Id }
+      ],
+      Score.create(state.score1, state.score2),
+      new GameStatus(state.status),
+      state.currentTime,
+      state.events,
+      state.lastUpdated,
+      state.providerGameId,
+      sportStateFromJSON(state.sportState),
+      state.competition
+    );
+  }
+
+  private initialState(event: any): ProjectedState {
+    const payload = event.payload || {};
+
+    return {
+      gameId: event.aggregateId,
+      providerGameId: payload.providerGameId || event.aggregateId,
+      sport: payload.sport,
+      competition: payload.competition,
+      team1: payload.team1,
+      team2: payload.team2,
+      team1Id: payload.team1Id,
+      team2Id: payload.team2Id,
+      score1: 0,
+      score2: 0,
+      status: payload.status || GameStatusEnum.SCHEDULED,
+      currentTime: payload.currentTime || '',
+      events: [],
+      lastUpdated: event.timestamp
+    };
+  }
+
+  private apply(state: ProjectedState, event: any): void {
+    const payload = event.payload || {};
+
+    switch (event.eventType) {
+      case 'GAME_STARTED':
+        state.status = GameStatusEnum.LIVE;
+        break;
+
+      case 'STATUS_CHANGED':
+      case 'STATUS_CORRECTED':
+        state.status = payload.newStatus;
+        break;
+
+      case 'SCORE_UPDATED':
+      case 'SCORE_CORRECTED':
+        state.score1 = payload.newScore.team1;
+        state.score2 = payload.newScore.team2;
+        break;
+
+      case 'SPORT_STATE_UPDATED':
+        state.sportState = payload.newState;
+        break;
+
+      case 'TEAMS_RESOLVED':
+        state.team1Id = payload.team1Id;
+        state.team2Id = payload.team2Id;
+        break;
+
+      case 'TIME_UPDATED':
+        state.currentTime = payload.newTime;
+        break;
+
+      default:
+        // Play-by-play events carry the upstream event id they were recorded from
+        if (event.sourceEventId) {
+          state.events.push({
+            eventId: event.sourceEventId,
+            eventType: event.eventType,
+            timestamp: event.timestamp,
+            team: payload.team,
+            side: payload.side,
+            player: payload.player,
+            ...(payload.points !== undefined && { points: payload.points }),
+            minute: payload.minute,
+            period: payload.period,
+            payload: {
+              originalEvent: payload.originalEvent
+            }
+          });
+        }
+    }
+  }
+}
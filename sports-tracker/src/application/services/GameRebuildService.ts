@@ -0,0 +1,190 @@
+import mongoose from 'mongoose';
+import { EventStore, ConcurrencyError } from '../../infrastructure/persistence/EventStore';
+import { GameRepository } from '../../infrastructure/persistence/GameRepository';
+import { GameProjector } from '../projections/GameProjector';
+import { Game } from '../../domain/entities/Game';
+
+export interface FieldDrift {
+  field: string;
+  snapshot: any;
+  replayed: any;
+}
+
+export interface GameDrift {
+  gameId: string;
+  reason: 'SNAPSHOT_MISMATCH' | 'MISSING_SNAPSHOT' | 'MISSING_EVENTS';
+  differences: FieldDrift[];
+}
+
+export interface RebuildResult {
+  rebuilt: string[];
+  failed: { gameId: string; error: string }[];
+}
+
+const MAX_REBUILD_ATTEMPTS = 3;
+
+const COMPARED_FIELDS = [
+  'sport',
+  'competition',
+  'team1',
+  'team2',
+  'team1Id',
+  'team2Id',
+  'score1',
+  'score2',
+  'sportState',
+  'status',
+  'currentTime'
+];
+
+export class GameRebuildService {
+  private eventStore: EventStore;
+  private gameRepository: GameRepository;
+  private projector: GameProjector;
+
+  constructor(
+    eventStore: EventStore,
+    gameRepository: GameRepository,
+    projector: GameProjector = new GameProjector()
+  ) {
+    this.eventStore = eventStore;
+    this.gameRepository = gameRepository;
+    this.projector = projector;
+  }
+
+  async replay(gameId: string): Promise<Game | null> {
+    const events = await this.eventStore.getEventsByGameId(gameId);
+    return this.projector.project(events);
+  }
+
+  // A sync may commit between reading the stream and writing the snapshot.
+  // The write only goes through while the stream still ends at the replayed
+  // event, otherwise the stream is read again.
+  async rebuildGame(gameId: string): Promise<Game | null> {
+    for (let attempt = 1; ; attempt++) {
+      const events = await this.eventStore.getEventsByGameId(gameId);
+      const game = this.projector.project(events);
+
+      if (!game) {
+        console.warn(`Cannot rebuild ${gameId}: no GAME_CREATED event found`);
+        return null;
+      }
+
+      const lastEvent = events[events.length - 1];
+
+      try {
+        await mongoose.connection.transaction(async session => {
+          const currentVersion = await this.eventStore.getCurrentVersion(gameId, session);
+          if (currentVersion !== lastEvent.version) {
+            throw new ConcurrencyError(gameId, lastEvent.version, currentVersion);
+          }
+
+          await this.gameRepository.save(game, session);
+          await this.gameRepository.updateVersion(gameId, lastEvent.version, lastEvent.eventId, session);
+        });
+      } catch (error) {
+        if (error instanceof ConcurrencyError && attempt < MAX_REBUILD_ATTEMPTS) {
+          console.warn(`${gameId}: ${error.message} while rebuilding, retrying (attempt ${attempt + 1})`);
+          continue;
+        }
+        throw error;
+      }
+
+      console.log(`Rebuilt ${gameId} from event stream`);
+      return game;
+    }
+  }
+
+  async rebuildAll(): Promise<RebuildResult> {
+    const result: RebuildResult = { rebuilt: [], failed: [] };
+    const gameIds = await this.eventStore.getAggregateIds();
+
+    console.log(`Rebuilding ${gameIds.length} games from event store...`);
+
+    for (const gameId of gameIds) {
+      try {
+        const game = await this.rebuildGame(gameId);
+
+        if (game) {
+          result.rebuilt.push(gameId);
+        } else {
+          result.failed.push({ gameId, error: 'No GAME_CREATED event found' });
+        }
+      } catch (error) {
+        console.error(`Error rebuilding ${gameId}:`, error);
+        result.failed.push({
+          gameId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return result;
+  }
+
+  async findDrift(): Promise<GameDrift[]> {
+    const drifts: GameDrift[] = [];
+    const snapshots = await this.gameRepository.findAll();
+    const snapshotIds = new Set(snapshots.map(snapshot => snapshot.gameId));
+
+    for (const snapshot of snapshots) {
+      const events = await this.eventStore.getEventsByGameId(snapshot.gameId);
+      const replayed = this.projector.project(events);
+
+      if (!replayed) {
+        drifts.push({
+          gameId: snapshot.gameId,
+          reason: 'MISSING_EVENTS',
+          differences: []
+        });
+        continue;
+      }
+
+      const differences = this.compare(snapshot, replayed);
+
+      const streamVersion = events[events.length - 1].version;
+      if (snapshot.version !== streamVersion) {
+        differences.push({
+          field: 'version',
+          snapshot: snapshot.version,
+          replayed: streamVersion
+        });
+      }
+
+      if (differences.length > 0) {
+        drifts.push({
+          gameId: snapshot.gameId,
+          reason: 'SNAPSHOT_MISMATCH',
+          differences
+        });
+      }
+    }
+
+    const gameIds = await this.eventStore.getAggregateIds();
+    for (const gameId of gameIds) {
+      if (!snapshotIds.has(gameId)) {
+        drifts.push({
+          gameId,
+          reason: 'MISSING_SNAPSHOT',
+          differences: []
+        });
+      }
+    }
+
+    return drifts;
+  }
+
+  private compare(snapshot: any, replayed: Game): FieldDrift[] {
+    const replayedState: { [field: string]: any } = replayed.toObject();
+
+    return COMPARED_FIELDS
+      .filter(field =>
+        JSON.stringify(snapshot[field]) !== JSON.stringify(replayedState[field])
+      )
+      .map(field => ({
+        field,
+        snapshot: snapshot[field],
+        replayed: replayedState[field]
+      }));
+  }
+}
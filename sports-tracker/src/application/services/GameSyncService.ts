@@ -1,122 +1,357 @@
-import { ISportAdapter } from '../../infrastructure/adapters/ISportAdapter';
-import { EventStore } from '../../infrastructure/persistence/EventStore';
+import { ISportAdapter, RejectedRecord } from '../../infrastructure/adapters/ISportAdapter';
+import { EventStore, EventData, ConcurrencyError } from '../../infrastructure/persistence/EventStore';
 import { GameRepository } from '../../infrastructure/persistence/GameRepository';
+import { GameUnitOfWork } from '../../infrastructure/persistence/GameUnitOfWork';
+import { QuarantineRepository } from '../../infrastructure/persistence/QuarantineRepository';
+import { QuarantineSource } from '../../infrastructure/persistence/schemas/QuarantineSchema';
 import { Game } from '../../domain/entities/Game';
+import { SportState } from '../../domain/value-objects/SportState';
+import { IEventDocument } from '../../infrastructure/persistence/schemas/EventSchema';
+import { GameEventBus } from '../events/GameEventBus';
+import { SourceHealthTracker } from './SourceHealthTracker';
+import {
+  adapterErrors,
+  adapterFetchDuration,
+  eventsWritten,
+  eventTypeLabel,
+  gamesFetched,
+  recordsQuarantined,
+  syncCycleDuration,
+  syncCycleOverlaps,
+  syncCyclesInProgress
+} from '../../infrastructure/metrics/metrics';
+import { detectRestartedFixture, instanceGameId } from '../../domain/services/FixtureLifecycle';
+
+const MAX_COMMIT_ATTEMPTS = 3;
+
+export interface GameSyncResult {
+  // Match instance the update was recorded on
+  gameId: string;
+  eventsWritten: number;
+  error?: string;
+}
+
+// What one sync of a sport saw, for the scheduler to pick the next interval
+export interface SportSyncOutcome {
+  sport: string;
+  ok: boolean;
+  liveGames: number;
+  scheduledGames: number;
+}
 
 export class GameSyncService {
-  private adapters: ISportAdapter[];
+  private adapters: Map<string, ISportAdapter>;
   private eventStore: EventStore;
   private gameRepository: GameRepository;
-  private pollingInterval: number;
-  private isRunning: boolean = false;
-  private intervalId?: NodeJS.Timeout;
+  private unitOfWork: GameUnitOfWork;
+  private eventBus: GameEventBus;
+  private sourceHealth: SourceHealthTracker;
+  private quarantine: QuarantineRepository;
+  // One run per sport at a time; a second request joins the running one
+  private inFlight = new Map<string, Promise<SportSyncOutcome>>();
 
   constructor(
     adapters: ISportAdapter[],
     eventStore: EventStore,
     gameRepository: GameRepository,
-    pollingInterval: number = 5000
+    unitOfWork: GameUnitOfWork,
+    eventBus: GameEventBus,
+    sourceHealth: SourceHealthTracker,
+    quarantine: QuarantineRepository
   ) {
-    this.adapters = adapters;
+    this.adapters = new Map(adapters.map(adapter => [adapter.getSportType(), adapter]));
     this.eventStore = eventStore;
     this.gameRepository = gameRepository;
-    this.pollingInterval = pollingInterval;
+    this.unitOfWork = unitOfWork;
+    this.eventBus = eventBus;
+    this.sourceHealth = sourceHealth;
+    this.quarantine = quarantine;
   }
 
-  async startPolling(): Promise<void> {
-    if (this.isRunning) {
-      console.log('Polling already running');
-      return;
-    }
+  getSports(): string[] {
+    return Array.from(this.adapters.keys());
+  }
 
-    this.isRunning = true;
-    console.log(`Starting polling every ${this.pollingInterval / 1000} seconds...`);
+  getAdapter(sport: string): ISportAdapter | undefined {
+    return this.adapters.get(sport);
+  }
 
-    await this.syncAllSports();
+  async syncAllSports(): Promise<SportSyncOutcome[]> {
+    console.log('\n === Sync cycle started ===');
+
+    const outcomes = await Promise.all(this.getSports().map(sport => this.syncSport(sport)));
 
-    this.intervalId = setInterval(async () => {
-      await this.syncAllSports();
-    }, this.pollingInterval);
+    console.log(' === Sync cycle completed ===\n');
+    return outcomes;
   }
 
-  stopPolling(): void {
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = undefined;
+  async syncSport(sport: string): Promise<SportSyncOutcome> {
+    const running = this.inFlight.get(sport);
+    if (running) {
+      console.warn(`${sport}: Previous sync still running, joining it`);
+      syncCycleOverlaps.inc({ sport });
+      return running;
     }
-    this.isRunning = false;
-    console.log('Polling stopped');
-  }
 
-  async syncAllSports(): Promise<void> {
-    console.log('\n === Sync cycle started ===');
-    
-    for (const adapter of this.adapters) {
-      try {
-        await this.syncSport(adapter);
-      } catch (error) {
-        console.error(`Error syncing ${adapter.getSportType()}:`, error);
-      }
+    const adapter = this.adapters.get(sport);
+    if (!adapter) {
+      throw new Error(`No adapter for sport ${sport}`);
     }
-    
-    console.log(' === Sync cycle completed ===\n');
+
+    const run = this.runSport(adapter).finally(() => {
+      this.inFlight.delete(sport);
+    });
+    this.inFlight.set(sport, run);
+
+    return run;
   }
 
-  private async syncSport(adapter: ISportAdapter): Promise<void> {
+  private async runSport(adapter: ISportAdapter): Promise<SportSyncOutcome> {
     const sportType = adapter.getSportType();
-    
+    const outcome: SportSyncOutcome = { sport: sportType, ok: false, liveGames: 0, scheduledGames: 0 };
+
+    syncCyclesInProgress.inc({ sport: sportType });
+    const stopTimer = syncCycleDuration.startTimer({ sport: sportType });
+
     try {
-      const games = await adapter.fetchGames();
-      
-      console.log(`${sportType}: Fetched ${games.length} games`);
+      const result = await adapter.fetchGames();
+
+      adapterFetchDuration.observe(
+        { sport: sportType, outcome: result.ok ? 'success' : 'failure' },
+        result.latencyMs / 1000
+      );
+
+      // Provider down is not "no games": leave stored games untouched
+      if (!result.ok) {
+        this.sourceHealth.recordFailure(sportType, result.error, result.latencyMs, result.attempts);
+        adapterErrors.inc({ sport: sportType, kind: result.error.kind });
+        console.warn(
+          `${sportType}: Fetch failed after ${result.attempts} attempt(s) ` +
+          `(${result.error.kind}: ${result.error.message}), keeping stored games`
+        );
+        return outcome;
+      }
+
+      const { games, rejected } = result.data;
+      this.sourceHealth.recordSuccess(sportType, result.latencyMs, result.attempts, games.length);
+      gamesFetched.inc({ sport: sportType }, games.length);
+      console.log(
+        `${sportType}: Fetched ${games.length} games in ${result.latencyMs}ms` +
+        (rejected.length > 0 ? `, ${rejected.length} rejected` : '')
+      );
+
+      await this.quarantineRecords(sportType, 'POLL', rejected);
 
       for (const game of games) {
         await this.processGame(game, sportType);
       }
 
+      return {
+        ...outcome,
+        ok: true,
+        liveGames: games.filter(game => game.getStatus().isLive()).length,
+        scheduledGames: games.filter(game => game.getStatus().isScheduled()).length
+      };
+
     } catch (error) {
       console.error(`Error syncing ${sportType}:`, error);
-      throw error;
+      return outcome;
+
+    } finally {
+      stopTimer();
+      syncCyclesInProgress.dec({ sport: sportType });
     }
   }
 
-  private async processGame(game: Game, sportType: string): Promise<void> {
-    const gameId = game.getGameId();
+  // Keeps rejected upstream records for operators (/api/admin/quarantine).
+  // Failing to store them must not hold up the valid ones.
+  async quarantineRecords(sport: string, source: QuarantineSource, records: RejectedRecord[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
 
     try {
-      const existingGame = await this.gameRepository.findById(gameId);
+      await this.quarantine.add(sport, source, records);
+      recordsQuarantined.inc({ sport, source: source.toLowerCase() }, records.length);
+    } catch (error) {
+      console.error(`${sport}: Error quarantining ${records.length} record(s):`, error);
+    }
+  }
 
-      if (!existingGame) {
-        await this.handleNewGame(game, sportType);
-      } else {
-        await this.handleExistingGame(game, existingGame, sportType);
+  // Pushed games (POST /api/ingest/:sport) go through the same diff and
+  // commit as polled ones. Both read the stored game and append at its
+  // version, so whichever comes second only records what the first didn't.
+  // A push signed before the stored game was last updated is a late record.
+  async ingestGames(sport: string, games: Game[], signedAt: Date): Promise<GameSyncResult[]> {
+    console.log(`${sport}: Ingesting ${games.length} pushed game(s) signed at ${signedAt.toISOString()}`);
+
+    const results: GameSyncResult[] = [];
+    for (const game of games) {
+      results.push(await this.processGame(game, sport, signedAt));
+    }
+    return results;
+  }
+
+  // Quarantined records reprocessed by an admin describe the game as it was
+  // when observedAt. They go through the same rules, but one older than the
+  // stored game can't take its status, score, clock or sport state back.
+  async reprocessGames(sport: string, games: Game[], observedAt: Date): Promise<GameSyncResult[]> {
+    console.log(`${sport}: Reprocessing ${games.length} game(s) observed at ${observedAt.toISOString()}`);
+
+    const results: GameSyncResult[] = [];
+    for (const game of games) {
+      results.push(await this.processGame(game, sport, observedAt));
+    }
+    return results;
+  }
+
+  private async processGame(game: Game, sportType: string, observedAt?: Date): Promise<GameSyncResult> {
+    const gameId = game.getGameId();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const { instanceId, savedEvents } = await this.syncGame(game, sportType, observedAt);
+        return { gameId: instanceId, eventsWritten: savedEvents.length };
+
+      } catch (error) {
+        if (error instanceof ConcurrencyError && attempt < MAX_COMMIT_ATTEMPTS) {
+          console.warn(`${gameId}: ${error.message}, retrying (attempt ${attempt + 1})`);
+          continue;
+        }
+
+        console.error(`Error processing game ${gameId}:`, error);
+        return { gameId, eventsWritten: 0, error: (error as Error).message };
       }
+    }
+  }
 
-    } catch (error) {
-      console.error(`Error processing game ${gameId}:`, error);
+  // Diffs the polled game against the stored snapshot and commits the
+  // resulting events. Both are re-read on every attempt, so a retry after a
+  // concurrency conflict never re-records what the other writer committed.
+  private async syncGame(
+    polledGame: Game,
+    sportType: string,
+    observedAt?: Date
+  ): Promise<{ instanceId: string; savedEvents: IEventDocument[] }> {
+    const resolved = await this.resolveInstance(polledGame, sportType, observedAt);
+    const { previousGameId } = resolved;
+    let game = resolved.game;
+    const gameId = game.getGameId();
+
+    const expectedVersion = await this.eventStore.getCurrentVersion(gameId);
+    const existingGame = await this.gameRepository.findById(gameId);
+    const storedGame = existingGame ? this.gameRepository.toEntity(existingGame) : undefined;
+
+    if (storedGame && observedAt && observedAt < storedGame.getLastUpdated()) {
+      console.warn(`${gameId}: Record observed at ${observedAt.toISOString()} predates the stored game, keeping its state`);
+      game = this.lateRecord(game, storedGame);
+    }
+
+    const events = storedGame
+      ? this.handleExistingGame(game, storedGame, sportType)
+      : this.handleNewGame(game, sportType, previousGameId);
+
+    events.push(...await this.collectPlayEvents(game, sportType));
+
+    const savedEvents = await this.unitOfWork.commit({
+      aggregateId: gameId,
+      expectedVersion,
+      events,
+      snapshot: game
+    });
+
+    const knownTypes = this.adapters.get(sportType)?.getKnownEventTypes() ?? [];
+    savedEvents.forEach(event => {
+      eventsWritten.inc({ sport: sportType, event_type: eventTypeLabel(event, knownTypes) });
+    });
+
+    this.eventBus.publish({ game, events: savedEvents });
+
+    return { instanceId: gameId, savedEvents };
+  }
+
+  // Adapters return games under the provider's ID. Maps them onto the
+  // current match instance, or opens a new instance when the provider
+  // restarted the fixture under the same ID.
+  private async resolveInstance(
+    polledGame: Game,
+    sportType: string,
+    observedAt?: Date
+  ): Promise<{ game: Game; previousGameId?: string }> {
+    const providerGameId = polledGame.getProviderGameId();
+    const current = await this.gameRepository.findCurrentInstance(providerGameId);
+
+    if (!current) {
+      return { game: polledGame };
+    }
+
+    // A late record may show the match before the current one, never a new one
+    const late = observedAt !== undefined && observedAt < current.lastUpdated;
+    const restartReason = late ? null : detectRestartedFixture(current, polledGame);
+    if (!restartReason) {
+      return { game: polledGame.forInstance(current.gameId) };
     }
+
+    const instances = await this.gameRepository.findInstances(providerGameId);
+    const gameId = instanceGameId(providerGameId, instances.length + 1);
+
+    console.log(`${providerGameId}: New ${sportType} match instance ${gameId} (${restartReason}, previous: ${current.gameId})`);
+
+    return {
+      game: polledGame.forInstance(gameId),
+      previousGameId: current.gameId
+    };
   }
 
-  private async handleNewGame(game: Game, sportType: string): Promise<void> {
+  // The stored game's state with what a late record can still add: play
+  // events not recorded yet, team links and the competition
+  private lateRecord(record: Game, storedGame: Game): Game {
+    return new Game(
+      storedGame.getGameId(),
+      storedGame.getSport(),
+      record.getParticipants().map(participant => ({ ...participant })),
+      storedGame.getScore(),
+      storedGame.getStatus(),
+      storedGame.getCurrentTime(),
+      record.getEvents(),
+      storedGame.getLastUpdated(),
+      storedGame.getProviderGameId(),
+      storedGame.getSportState(),
+      record.getCompetition() ?? storedGame.getCompetition()
+    );
+  }
+
+  private handleNewGame(
+    game: Game,
+    sportType: string,
+    previousGameId?: string
+  ): EventData[] {
     const gameId = game.getGameId();
-    
+    const events: EventData[] = [];
+
     console.log(`New game detected: ${gameId} (${sportType})`);
 
-    await this.eventStore.saveEvent({
+    events.push({
       eventType: 'GAME_CREATED',
       aggregateId: gameId,
       timestamp: new Date(),
       payload: {
         sport: sportType,
+        competition: game.getCompetition(),
         team1: game.getTeam1Name(),
         team2: game.getTeam2Name(),
-        status: game.getStatus().getValue()
+        team1Id: game.getTeam1Id(),
+        team2Id: game.getTeam2Id(),
+        status: game.getStatus().getValue(),
+        currentTime: game.getCurrentTime(),
+        providerGameId: game.getProviderGameId(),
+        previousGameId
       },
       sourceApi: `${sportType.toLowerCase()}-api`
     });
 
     if (game.getStatus().isLive()) {
-      await this.eventStore.saveEvent({
+      events.push({
         eventType: 'GAME_STARTED',
         aggregateId: gameId,
         timestamp: new Date(),
@@ -130,7 +365,7 @@ export class GameSyncService {
 
     const score = game.getScore();
     if (score.getTeam1Score() > 0 || score.getTeam2Score() > 0) {
-      await this.eventStore.saveEvent({
+      events.push({
         eventType: 'SCORE_UPDATED',
         aggregateId: gameId,
         timestamp: new Date(),
@@ -140,72 +375,115 @@ export class GameSyncService {
           newScore: {
             team1: score.getTeam1Score(),
             team2: score.getTeam2Score()
+          },
+          delta: {
+            team1: score.getTeam1Score(),
+            team2: score.getTeam2Score()
           }
         },
         sourceApi: `${sportType.toLowerCase()}-api`
       });
     }
 
-    await this.gameRepository.save(game);
+    events.push(...this.sportStateEvents(game, undefined, sportType));
+
+    return events;
   }
 
-  private async handleExistingGame(
+  private handleExistingGame(
     newGame: Game,
-    existingGame: any,
+    storedGame: Game,
     sportType: string
-  ): Promise<void> {
+  ): EventData[] {
     const gameId = newGame.getGameId();
-    let hasChanges = false;
+    const events: EventData[] = [];
+
+    // A name the registry couldn't resolve this time keeps its stored link
+    const team1Id = newGame.getTeam1Id() ?? storedGame.getTeam1Id();
+    const team2Id = newGame.getTeam2Id() ?? storedGame.getTeam2Id();
+    newGame.assignTeams(team1Id, team2Id);
+
+    if (team1Id !== storedGame.getTeam1Id() || team2Id !== storedGame.getTeam2Id()) {
+      console.log(`${gameId}: Teams resolved to ${team1Id ?? '?'} vs ${team2Id ?? '?'}`);
+
+      events.push({
+        eventType: 'TEAMS_RESOLVED',
+        aggregateId: gameId,
+        timestamp: new Date(),
+        payload: {
+          sport: sportType,
+          previousTeamIds: { team1: storedGame.getTeam1Id(), team2: storedGame.getTeam2Id() },
+          team1Id,
+          team2Id
+        },
+        sourceApi: `${sportType.toLowerCase()}-api`
+      });
+    }
+
+    const outcome = storedGame.applyUpdate(
+      newGame.getStatus().getValue(),
+      newGame.getScore()
+    );
 
-    const newStatus = newGame.getStatus().getValue();
-    const oldStatus = existingGame.status;
+    const oldStatus = outcome.previousStatus;
+    const newStatus = outcome.newStatus;
 
     if (newStatus !== oldStatus) {
-      console.log(`${gameId}: Status changed ${oldStatus} → ${newStatus}`);
-      
-      await this.eventStore.saveEvent({
-        eventType: 'STATUS_CHANGED',
+      if (outcome.statusViolation) {
+        console.warn(`${gameId}: Status corrected ${oldStatus} → ${newStatus} (${outcome.statusViolation})`);
+      } else {
+        console.log(`${gameId}: Status changed ${oldStatus} → ${newStatus}`);
+      }
+
+      events.push({
+        eventType: outcome.statusViolation ? 'STATUS_CORRECTED' : 'STATUS_CHANGED',
         aggregateId: gameId,
         timestamp: new Date(),
         payload: {
           sport: sportType,
           previousStatus: oldStatus,
-          newStatus: newStatus
+          newStatus: newStatus,
+          ...(outcome.statusViolation && { rule: outcome.statusViolation })
         },
         sourceApi: `${sportType.toLowerCase()}-api`
       });
-
-      hasChanges = true;
     }
 
-    const newScore1 = newGame.getScore().getTeam1Score();
-    const newScore2 = newGame.getScore().getTeam2Score();
-    const oldScore1 = existingGame.score1;
-    const oldScore2 = existingGame.score2;
+    const newScore1 = outcome.newScore.getTeam1Score();
+    const newScore2 = outcome.newScore.getTeam2Score();
+    const oldScore1 = outcome.previousScore.getTeam1Score();
+    const oldScore2 = outcome.previousScore.getTeam2Score();
 
-    if (newScore1 !== oldScore1 || newScore2 !== oldScore2) {
-      console.log(`${gameId}: Score changed ${oldScore1}-${oldScore2} → ${newScore1}-${newScore2}`);
-      
-      await this.eventStore.saveEvent({
-        eventType: 'SCORE_UPDATED',
+    if (!outcome.newScore.equals(outcome.previousScore)) {
+      if (outcome.scoreViolation) {
+        console.warn(`${gameId}: Score corrected ${oldScore1}-${oldScore2} → ${newScore1}-${newScore2} (${outcome.scoreViolation})`);
+      } else {
+        console.log(`${gameId}: Score changed ${oldScore1}-${oldScore2} → ${newScore1}-${newScore2}`);
+      }
+
+      events.push({
+        eventType: outcome.scoreViolation ? 'SCORE_CORRECTED' : 'SCORE_UPDATED',
         aggregateId: gameId,
         timestamp: new Date(),
         payload: {
           sport: sportType,
           previousScore: { team1: oldScore1, team2: oldScore2 },
-          newScore: { team1: newScore1, team2: newScore2 }
+          newScore: { team1: newScore1, team2: newScore2 },
+          // Several baskets can land between two polls
+          delta: { team1: newScore1 - oldScore1, team2: newScore2 - oldScore2 },
+          ...(outcome.scoreViolation && { rule: outcome.scoreViolation })
         },
         sourceApi: `${sportType.toLowerCase()}-api`
       });
-
-      hasChanges = true;
     }
 
+    events.push(...this.sportStateEvents(newGame, storedGame.getSportState(), sportType));
+
     const newTime = newGame.getCurrentTime();
-    const oldTime = existingGame.currentTime;
+    const oldTime = storedGame.getCurrentTime();
 
     if (newTime !== oldTime) {
-      await this.eventStore.saveEvent({
+      events.push({
         eventType: 'TIME_UPDATED',
         aggregateId: gameId,
         timestamp: new Date(),
@@ -216,13 +494,106 @@ export class GameSyncService {
         },
         sourceApi: `${sportType.toLowerCase()}-api`
       });
-
-      hasChanges = true;
     }
 
-    if (hasChanges) {
-      await this.gameRepository.save(newGame);
+    return events;
+  }
+
+  // Events derived from the sport-specific state (tennis games/sets, ...)
+  // followed by the new state itself. Nothing is derived for a game seen for
+  // the first time, as its history happened before we tracked it.
+  private sportStateEvents(
+    game: Game,
+    previousState: SportState | undefined,
+    sportType: string
+  ): EventData[] {
+    const gameId = game.getGameId();
+    const newState = game.getSportState();
+
+    if (!newState || newState.equals(previousState)) {
+      return [];
     }
+
+    const derivedEvents = previousState ? newState.deriveEvents(previousState) : [];
+
+    const events: EventData[] = derivedEvents.map(derived => {
+      const participant = game
+        .getParticipants()
+        .find(p => p.side === derived.side);
+
+      console.log(`${gameId}: ${derived.eventType}${participant ? ` (${participant.name})` : ''}`);
+
+      return {
+        eventType: derived.eventType,
+        aggregateId: gameId,
+        timestamp: new Date(),
+        payload: {
+          sport: sportType,
+          side: derived.side,
+          team: participant?.name,
+          period: derived.period,
+          ...derived.payload
+        },
+        sourceApi: `${sportType.toLowerCase()}-api`
+      };
+    });
+
+    events.push({
+      eventType: 'SPORT_STATE_UPDATED',
+      aggregateId: gameId,
+      timestamp: new Date(),
+      payload: {
+        sport: sportType,
+        previousState: previousState?.toJSON() ?? null,
+        newState: newState.toJSON()
+      },
+      sourceApi: `${sportType.toLowerCase()}-api`
+    });
+
+    return events;
+  }
+
+  private async collectPlayEvents(game: Game, sportType: string): Promise<EventData[]> {
+    const gameId = game.getGameId();
+    const recorded = await this.eventStore.getRecordedSourceEventIds(gameId);
+
+    // A provider repeating an ID within one payload keeps the first
+    const newEvents = game
+      .getEvents()
+      .filter(event => {
+        if (recorded.has(event.eventId)) {
+          return false;
+        }
+        recorded.add(event.eventId);
+        return true;
+      })
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    return newEvents.map(event => {
+      const participant = game
+        .getParticipants()
+        .find(p => p.side === event.side);
+
+      console.log(`${gameId}: ${event.eventType} (${participant?.name ?? 'unknown side'})`);
+
+      return {
+        eventType: event.eventType,
+        aggregateId: gameId,
+        timestamp: event.timestamp,
+        payload: {
+          sport: sportType,
+          side: event.side,
+          team: participant?.name,
+          player: event.player,
+          ...(event.points !== undefined && { points: event.points }),
+          minute: event.minute,
+          period: event.period,
+          originalEvent: event.payload?.originalEvent
+        },
+        sourceApi: `${sportType.toLowerCase()}-api`,
+        sourceEventId: event.eventId
+      };
+    });
   }
 
   async getStats(): Promise<{
@@ -0,0 +1,87 @@
+import crypto from 'crypto';
+import { GameSyncService, GameSyncResult } from './GameSyncService';
+import { IngestRequestRepository } from '../../infrastructure/persistence/IngestRequestRepository';
+
+export interface IngestResult {
+  sport: string;
+  games: GameSyncResult[];
+  eventsWritten: number;
+  // Quarantined, see /api/admin/quarantine
+  rejected: { index: number; providerGameId?: string; reason: string }[];
+}
+
+export type IngestOutcome =
+  | { kind: 'PROCESSED'; result: IngestResult }
+  // Same key and body as an earlier delivery: its result, nothing recorded
+  | { kind: 'REPLAYED'; result: IngestResult }
+  | { kind: 'IN_PROGRESS' }
+  | { kind: 'KEY_REUSED' }
+  | { kind: 'INVALID_PAYLOAD'; result: IngestResult }
+  | { kind: 'FAILED'; result: IngestResult };
+
+// Pushed provider payloads: mapped by the sport's adapter and committed by
+// GameSyncService like a poll, once per Idempotency-Key
+export class IngestService {
+  constructor(
+    private syncService: GameSyncService,
+    private ingestRequests: IngestRequestRepository
+  ) {}
+
+  async ingest(
+    sport: string,
+    idempotencyKey: string,
+    rawBody: Buffer,
+    payload: any,
+    signedAt: Date
+  ): Promise<IngestOutcome> {
+    const adapter = this.syncService.getAdapter(sport);
+    if (!adapter) {
+      throw new Error(`No adapter for sport ${sport}`);
+    }
+
+    const bodyHash = crypto.createHash('sha256').update(rawBody).digest('hex');
+    const claimId = crypto.randomUUID();
+    const existing = await this.ingestRequests.claim(sport, idempotencyKey, bodyHash, claimId);
+
+    if (existing) {
+      if (existing.bodyHash !== bodyHash) {
+        return { kind: 'KEY_REUSED' };
+      }
+      return existing.status === 'COMPLETED'
+        ? { kind: 'REPLAYED', result: existing.result }
+        : { kind: 'IN_PROGRESS' };
+    }
+
+    try {
+      const { games, rejected } = await adapter.mapPayload(payload);
+      await this.syncService.quarantineRecords(sport, 'PUSH', rejected);
+
+      const results = await this.syncService.ingestGames(sport, games, signedAt);
+      const result: IngestResult = {
+        sport,
+        games: results,
+        eventsWritten: results.reduce((total, game) => total + game.eventsWritten, 0),
+        rejected: rejected.map(({ index, providerGameId, reason }) => ({ index, providerGameId, reason }))
+      };
+
+      // Retrying the same body can't help, but a fixed one may reuse the key
+      if (games.length === 0 && rejected.length > 0) {
+        await this.ingestRequests.release(sport, idempotencyKey, claimId);
+        return { kind: 'INVALID_PAYLOAD', result };
+      }
+
+      // Let the provider retry; games already committed dedupe on the way in
+      if (results.some(game => game.error)) {
+        await this.ingestRequests.release(sport, idempotencyKey, claimId);
+        return { kind: 'FAILED', result };
+      }
+
+      await this.ingestRequests.complete(sport, idempotencyKey, claimId, result);
+      return { kind: 'PROCESSED', result };
+
+    } catch (error) {
+      await this.ingestRequests.release(sport, idempotencyKey, claimId);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,159 @@
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { OutboxRepository } from '../../infrastructure/persistence/OutboxRepository';
+import { IEventPublisher } from '../../infrastructure/messaging/IEventPublisher';
+
+const BATCH_SIZE = 100;
+
+// Relays committed events from the outbox collection to the event publisher.
+// Messages are only marked published after the broker acknowledged them, so
+// delivery is at-least-once; a failed batch is retried as a whole, in order.
+export class OutboxRelay {
+  private outboxRepository: OutboxRepository;
+  private publisher: IEventPublisher;
+  private pollingInterval: number;
+  private readonly owner: string;
+  private readonly leaseTtl: number;
+  private isRunning: boolean = false;
+  private isConnected: boolean = false;
+  private timeoutId?: NodeJS.Timeout;
+
+  constructor(
+    outboxRepository: OutboxRepository,
+    publisher: IEventPublisher,
+    pollingInterval: number = 1000
+  ) {
+    this.outboxRepository = outboxRepository;
+    this.publisher = publisher;
+    this.pollingInterval = pollingInterval;
+    this.owner = `${os.hostname()}-${process.pid}-${uuidv4()}`;
+    this.leaseTtl = pollingInterval * 10;
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      console.log('Outbox relay already running');
+      return;
+    }
+
+    // The broker is connected from the relay loop, so an unreachable one
+    // doesn't hold up startup; messages wait in the outbox meanwhile
+    this.isRunning = true;
+    console.log(`Outbox relay started (every ${this.pollingInterval}ms)`);
+
+    this.scheduleNext(0);
+  }
+
+  async stop(): Promise<void> {
+    this.isRunning = false;
+
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = undefined;
+    }
+
+    await this.outboxRepository.releaseLease(this.owner);
+    if (this.isConnected) {
+      this.isConnected = false;
+      await this.publisher.disconnect();
+    }
+    console.log('Outbox relay stopped');
+  }
+
+  // Publishes pending messages until the outbox is drained, a batch fails or
+  // the lease is lost. Returns the number of messages published.
+  async relayPending(): Promise<number> {
+    if (!this.isConnected) {
+      await this.publisher.connect();
+      this.isConnected = true;
+    }
+
+    if (!await this.outboxRepository.acquireLease(this.owner, this.leaseTtl)) {
+      return 0;
+    }
+
+    // Renewed while a batch is out, so a slow broker can't outlast the lease
+    // and let a second relay publish the same messages alongside this one
+    let leaseLost = false;
+    const renewal = setInterval(async () => {
+      try {
+        if (!await this.outboxRepository.acquireLease(this.owner, this.leaseTtl)) {
+          leaseLost = true;
+        }
+      } catch (error) {
+        console.error('Error renewing outbox lease:', error);
+      }
+    }, this.leaseTtl / 3);
+
+    try {
+      return await this.relayBatches(() => leaseLost);
+    } finally {
+      clearInterval(renewal);
+    }
+  }
+
+  private async relayBatches(isLeaseLost: () => boolean): Promise<number> {
+    let published = 0;
+
+    for (let batch = 0; ; batch++) {
+      // Each further batch starts by confirming the lease is still ours
+      if (isLeaseLost() || (batch > 0 && !await this.outboxRepository.acquireLease(this.owner, this.leaseTtl))) {
+        console.warn('Outbox relay: lease lost, leaving the outbox to its new owner');
+        break;
+      }
+
+      const pending = await this.outboxRepository.findPending(BATCH_SIZE);
+      if (pending.length === 0) {
+        break;
+      }
+
+      const eventIds = pending.map(message => message.eventId);
+
+      try {
+        await this.publisher.publish(pending.map(message => ({
+          topic: message.topic,
+          key: message.key,
+          value: message.value,
+          headers: { eventType: message.eventType }
+        })));
+
+      } catch (error) {
+        console.error('Error publishing outbox batch:', error);
+        await this.outboxRepository.recordFailure(
+          eventIds,
+          error instanceof Error ? error.message : String(error)
+        );
+        break;
+      }
+
+      await this.outboxRepository.markPublished(eventIds);
+      published += pending.length;
+
+      if (pending.length < BATCH_SIZE) {
+        break;
+      }
+    }
+
+    if (published > 0) {
+      console.log(`Outbox relay: published ${published} events`);
+    }
+
+    return published;
+  }
+
+  private scheduleNext(delay: number): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.timeoutId = setTimeout(async () => {
+      try {
+        await this.relayPending();
+      } catch (error) {
+        console.error('Error relaying outbox:', error);
+      }
+
+      this.scheduleNext(this.pollingInterval);
+    }, delay);
+  }
+}
@@ -0,0 +1,68 @@
+import { EventStore } from '../../infrastructure/persistence/EventStore';
+import { GameRepository, GameListQuery } from '../../infrastructure/persistence/GameRepository';
+import { GameProjector } from '../projections/GameProjector';
+import { Game } from '../../domain/entities/Game';
+
+export interface GameAsOf {
+  game: Game;
+  // Version of the last event applied
+  version: number;
+}
+
+// Games as they stood at a past instant ("what did we show at 20:41?"),
+// replayed from the events recorded up to then
+export class PointInTimeService {
+  constructor(
+    private eventStore: EventStore,
+    private gameRepository: GameRepository,
+    private projector: GameProjector = new GameProjector()
+  ) {}
+
+  // Null when nothing had been recorded for the game yet
+  async getGame(gameId: string, asOf: Date): Promise<GameAsOf | null> {
+    const [state] = await this.replay([gameId], asOf);
+    return state ?? null;
+  }
+
+  // Pages over the games already recorded at asOf, newest first. Filters
+  // apply to what doesn't change over a game's life (sport, teams).
+  async getGames(
+    query: GameListQuery,
+    asOf: Date
+  ): Promise<{ games: GameAsOf[]; nextCursor: string | null }> {
+    const page = await this.gameRepository.findPage({
+      ...query,
+      createdBefore: asOf,
+      sort: { field: 'createdAt', direction: -1 },
+      fields: ['gameId']
+    });
+
+    const games = await this.replay(page.games.map(game => game.gameId), asOf);
+    return { games, nextCursor: page.nextCursor };
+  }
+
+  private async replay(gameIds: string[], asOf: Date): Promise<GameAsOf[]> {
+    if (gameIds.length === 0) {
+      return [];
+    }
+
+    const events = await this.eventStore.getEventsRecordedBy(gameIds, asOf);
+    const streams = new Map<string, any[]>();
+    events.forEach(event => {
+      const stream = streams.get(event.aggregateId) ?? [];
+      stream.push(event);
+      streams.set(event.aggregateId, stream);
+    });
+
+    const states: GameAsOf[] = [];
+    gameIds.forEach(gameId => {
+      const stream = streams.get(gameId) ?? [];
+      const game = this.projector.project(stream);
+
+      if (game) {
+        states.push({ game, version: stream[stream.length - 1].version });
+      }
+    });
+    return states;
+  }
+}
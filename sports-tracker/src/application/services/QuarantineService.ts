@@ -0,0 +1,62 @@
+import { GameSyncService, GameSyncResult } from './GameSyncService';
+import { QuarantineRepository, QuarantineFilter } from '../../infrastructure/persistence/QuarantineRepository';
+import { IQuarantineDocument } from '../../infrastructure/persistence/schemas/QuarantineSchema';
+
+export type ReprocessOutcome =
+  | { kind: 'REPROCESSED'; game: GameSyncResult }
+  | { kind: 'NOT_FOUND' }
+  | { kind: 'ALREADY_REPROCESSED' }
+  | { kind: 'SPORT_DISABLED' }
+  | { kind: 'STILL_INVALID'; reason: string }
+  | { kind: 'FAILED'; game: GameSyncResult };
+
+export class QuarantineService {
+  constructor(
+    private syncService: GameSyncService,
+    private quarantine: QuarantineRepository
+  ) {}
+
+  async list(filter: QuarantineFilter): Promise<IQuarantineDocument[]> {
+    return await this.quarantine.find(filter);
+  }
+
+  async get(id: string): Promise<IQuarantineDocument | null> {
+    return await this.quarantine.findById(id);
+  }
+
+  // Maps the stored record again with the current adapter (after a feed
+  // spec fix, say) and commits it as of when it was last seen: through the
+  // game rules, so a change that breaks one is recorded as a correction, and
+  // without rolling back anything recorded since
+  async reprocess(id: string): Promise<ReprocessOutcome> {
+    const entry = await this.quarantine.findById(id);
+    if (!entry) {
+      return { kind: 'NOT_FOUND' };
+    }
+    if (entry.status === 'REPROCESSED') {
+      return { kind: 'ALREADY_REPROCESSED' };
+    }
+
+    const adapter = this.syncService.getAdapter(entry.sport);
+    if (!adapter) {
+      return { kind: 'SPORT_DISABLED' };
+    }
+
+    const { games, rejected } = await adapter.mapPayload(entry.payload);
+    if (games.length === 0) {
+      const reason = rejected[0]?.reason || 'maps to no game';
+      await this.quarantine.updateReason(id, reason);
+      return { kind: 'STILL_INVALID', reason };
+    }
+
+    const [game] = await this.syncService.reprocessGames(entry.sport, games, entry.lastSeenAt);
+    if (game.error) {
+      return { kind: 'FAILED', game };
+    }
+
+    await this.quarantine.markReprocessed(id, game.gameId);
+    console.log(`${entry.sport}: Reprocessed quarantined record ${id} into ${game.gameId}`);
+
+    return { kind: 'REPROCESSED', game };
+  }
+}
@@ -0,0 +1,114 @@
+import { ISportAdapter } from '../../infrastructure/adapters/ISportAdapter';
+import { FetchError } from '../../infrastructure/http/FetchResult';
+import { CircuitState } from '../../infrastructure/http/CircuitBreaker';
+import { PollingOptions } from './SyncScheduler';
+
+export interface SourceHealth {
+  sport: string;
+  lastSuccessAt: string | null;
+  lastErrorAt: string | null;
+  lastError: FetchError | null;
+  consecutiveFailures: number;
+  // Of the last fetch, successful or not, including retries
+  lastLatencyMs: number | null;
+  lastAttempts: number | null;
+  gamesFetched: number | null;
+  // Since the last successful fetch, or since tracking started if none yet
+  dataAgeMs: number;
+  // Data older than this is stale
+  maxDataAgeMs: number;
+  stale: boolean;
+  circuit: CircuitState;
+}
+
+interface SourceRecord {
+  adapter: ISportAdapter;
+  maxDataAgeMs: number;
+  trackedSince: number;
+  lastSuccessAt?: number;
+  lastErrorAt?: number;
+  lastError?: FetchError;
+  consecutiveFailures: number;
+  lastLatencyMs?: number;
+  lastAttempts?: number;
+  gamesFetched?: number;
+}
+
+// Outcome of the latest fetches per source, for the health endpoints.
+// In memory: each instance reports on its own polling.
+export class SourceHealthTracker {
+  private readonly sources = new Map<string, SourceRecord>();
+
+  // A source's data is stale after maxDataAgeMs, or after two of its longest
+  // poll intervals if that is longer, so an idle feed isn't stale between polls
+  constructor(
+    adapters: ISportAdapter[],
+    maxDataAgeMs: number = 60000,
+    polling: Map<string, PollingOptions> = new Map()
+  ) {
+    const now = Date.now();
+    adapters.forEach(adapter => {
+      const sportPolling = polling.get(adapter.getSportType());
+      const longestIntervalMs = sportPolling
+        ? Math.max(sportPolling.liveIntervalMs, sportPolling.intervalMs, sportPolling.idleIntervalMs)
+        : 0;
+
+      this.sources.set(adapter.getSportType(), {
+        adapter,
+        maxDataAgeMs: Math.max(maxDataAgeMs, longestIntervalMs * 2),
+        trackedSince: now,
+        consecutiveFailures: 0
+      });
+    });
+  }
+
+  recordSuccess(sport: string, latencyMs: number, attempts: number, gamesFetched: number): void {
+    const source = this.sources.get(sport);
+    if (!source) {
+      return;
+    }
+
+    source.lastSuccessAt = Date.now();
+    source.consecutiveFailures = 0;
+    source.lastLatencyMs = latencyMs;
+    source.lastAttempts = attempts;
+    source.gamesFetched = gamesFetched;
+  }
+
+  recordFailure(sport: string, error: FetchError, latencyMs: number, attempts: number): void {
+    const source = this.sources.get(sport);
+    if (!source) {
+      return;
+    }
+
+    source.lastErrorAt = Date.now();
+    source.lastError = error;
+    source.consecutiveFailures++;
+    source.lastLatencyMs = latencyMs;
+    source.lastAttempts = attempts;
+  }
+
+  getReport(): SourceHealth[] {
+    const now = Date.now();
+
+    return Array.from(this.sources.entries()).map(([sport, source]) => {
+      // A source that never answered gets the threshold as a startup grace
+      const dataAgeMs = now - (source.lastSuccessAt ?? source.trackedSince);
+
+      return {
+        sport,
+        lastSuccessAt: source.lastSuccessAt ? new Date(source.lastSuccessAt).toISOString() : null,
+        lastErrorAt: source.lastErrorAt ? new Date(source.lastErrorAt).toISOString() : null,
+        lastError: source.lastError ?? null,
+        consecutiveFailures: source.consecutiveFailures,
+        lastLatencyMs: source.lastLatencyMs ?? null,
+        lastAttempts: source.lastAttempts ?? null,
+        gamesFetched: source.gamesFetched ?? null,
+        dataAgeMs,
+        maxDataAgeMs: source.maxDataAgeMs,
+        stale: dataAgeMs > source.maxDataAgeMs,
+        circuit: source.adapter.getCircuitState()
+      };
+    });
+  }
+}
@@ -0,0 +1,282 @@
+import { GameEventBus, GameUpdate } from '../events/GameEventBus';
+import { GameRepository } from '../../infrastructure/persistence/GameRepository';
+import { EventStore } from '../../infrastructure/persistence/EventStore';
+import { TeamRepository } from '../../infrastructure/persistence/TeamRepository';
+import { StandingsRepository, CountedResult } from '../../infrastructure/persistence/StandingsRepository';
+import { Game } from '../../domain/entities/Game';
+import { STANDINGS_RULES, StandingsRule, TieBreaker, decidedIn } from '../../domain/rules/StandingsRules';
+import { StandingsRow, rankStandings } from '../../domain/services/StandingsTable';
+import { SportRegistry } from '../../config/sports';
+
+// Games whose feed names no competition
+export const DEFAULT_COMPETITION = 'default';
+
+const PAGE_SIZE = 200;
+
+// Events that can change what a finished game counts for
+const RESULT_EVENT_TYPES = new Set([
+  'GAME_CREATED',
+  'STATUS_CHANGED',
+  'STATUS_CORRECTED',
+  'SCORE_UPDATED',
+  'SCORE_CORRECTED',
+  'SPORT_STATE_UPDATED',
+  'TEAMS_RESOLVED'
+]);
+
+export interface RankedStandingsRow extends StandingsRow {
+  rank: number;
+  name?: string;
+}
+
+export interface StandingsTable {
+  sport: string;
+  competition: string;
+  rule: string;
+  tieBreakers: TieBreaker[];
+  rows: RankedStandingsRow[];
+}
+
+// League tables from finished games: a game counts once it is FINISHED with
+// both teams resolved, and a later correction swaps its old result for the
+// new one. Kept up to date by following the event feed from a stored
+// checkpoint, so an update that fails, or is missed while the process is
+// down, is picked up on the next round. Committed game updates only make it
+// look sooner.
+export class StandingsService {
+  private isRunning: boolean = false;
+  private timeoutId?: NodeJS.Timeout;
+  // The catch-up or rebuild in progress; they never overlap
+  private running: Promise<unknown> = Promise.resolve();
+  private rebuilding?: Promise<{ counted: number }>;
+
+  constructor(
+    private standings: StandingsRepository,
+    private gameRepository: GameRepository,
+    private teams: TeamRepository,
+    private eventStore: EventStore,
+    private sportRegistry: SportRegistry,
+    private pollingInterval: number = 5000
+  ) {}
+
+  // Returns a stop function
+  start(eventBus: GameEventBus): () => void {
+    this.isRunning = true;
+    const unsubscribe = eventBus.subscribe(update => this.onGameUpdate(update));
+    this.scheduleNext(0);
+
+    return () => {
+      this.isRunning = false;
+      unsubscribe();
+      if (this.timeoutId) {
+        clearTimeout(this.timeoutId);
+        this.timeoutId = undefined;
+      }
+    };
+  }
+
+  private onGameUpdate({ events }: GameUpdate): void {
+    if (events.some(event => RESULT_EVENT_TYPES.has(event.eventType))) {
+      this.scheduleNext(0);
+    }
+  }
+
+  private scheduleNext(delay: number): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+    }
+
+    this.timeoutId = setTimeout(async () => {
+      this.timeoutId = undefined;
+      try {
+        await this.exclusively(() => this.catchUp());
+      } catch (error) {
+        console.error('Error updating standings, retrying from the checkpoint:', error);
+      }
+
+      if (!this.timeoutId) {
+        this.scheduleNext(this.pollingInterval);
+      }
+    }, delay);
+  }
+
+  private exclusively<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.running.then(task, task);
+    this.running = next.catch(() => undefined);
+    return next;
+  }
+
+  // Recounts every game with result events since the checkpoint. The
+  // checkpoint only moves past a page once all of its games are counted.
+  private async catchUp(): Promise<void> {
+    let checkpoint = await this.standings.getCheckpoint();
+    if (checkpoint === null) {
+      await this.recount();
+      return;
+    }
+
+    for (;;) {
+      const events = await this.eventStore.getEventsAfterSequence(checkpoint, {
+        eventTypes: Array.from(RESULT_EVENT_TYPES),
+        limit: PAGE_SIZE
+      });
+      if (events.length === 0) {
+        return;
+      }
+
+      const gameIds = new Set<string>(events.map(event => event.aggregateId));
+      for (const gameId of gameIds) {
+        await this.recordGame(gameId);
+      }
+
+      checkpoint = events[events.length - 1].sequence as number;
+      await this.standings.saveCheckpoint(checkpoint);
+
+      if (events.length < PAGE_SIZE) {
+        return;
+      }
+    }
+  }
+
+  // Counts the stored game as it is now, so updates handled out of order
+  // still end on the latest result
+  async recordGame(gameId: string): Promise<void> {
+    const document = await this.gameRepository.findById(gameId);
+    const game = document ? this.gameRepository.toEntity(document) : null;
+    const result = game ? this.countedResult(game) : null;
+
+    if (await this.standings.replaceResult(gameId, result)) {
+      console.log(
+        result
+          ? `${result.sport}: Standings counted ${gameId} (${result.competition}) ${result.score1}-${result.score2}`
+          : `Standings no longer count ${gameId}`
+      );
+    }
+  }
+
+  // Recounts every finished game, e.g. after a rule change. Waits for the
+  // catch-up in progress and holds the next one back until it is done.
+  async rebuild(): Promise<{ counted: number }> {
+    if (!this.rebuilding) {
+      this.rebuilding = this.exclusively(() => this.recount()).finally(() => {
+        this.rebuilding = undefined;
+      });
+    }
+    return await this.rebuilding;
+  }
+
+  // Events after the checkpoint are replayed by the next catch-up; recording
+  // a game is idempotent, so those already reflected in the games read here
+  // are counted once
+  private async recount(): Promise<{ counted: number }> {
+    const checkpoint = await this.eventStore.getLatestSequence();
+    await this.standings.clear();
+
+    const games = await this.gameRepository.findByStatus('FINISHED');
+    let counted = 0;
+
+    for (const document of games) {
+      const result = this.countedResult(this.gameRepository.toEntity(document));
+      if (result && await this.standings.replaceResult(result.gameId, result)) {
+        counted++;
+      }
+    }
+
+    await this.standings.saveCheckpoint(checkpoint, true);
+
+    console.log(`Standings rebuilt from ${counted} finished game(s), up to event ${checkpoint}`);
+    return { counted };
+  }
+
+  // One table per competition, or only the one asked for
+  async getTables(sport: string, competition?: string): Promise<StandingsTable[]> {
+    const rule = this.ruleFor(sport);
+    if (!rule) {
+      return [];
+    }
+
+    const [rows, results] = await Promise.all([
+      this.standings.findRows(sport, competition),
+      this.standings.findResults(sport, competition)
+    ]);
+
+    const teams = await this.teams.findByIds(Array.from(new Set(rows.map(row => row.teamId))));
+    const names = new Map(teams.map(team => [team.getTeamId(), team.getName()]));
+
+    const competitions = Array.from(new Set(rows.map(row => row.competition))).sort();
+
+    return competitions.map(name => {
+      const ranked = rankStandings(
+        rows
+          .filter(row => row.competition === name)
+          .map(row => ({
+            teamId: row.teamId,
+            played: row.played,
+            won: row.won,
+            drawn: row.drawn,
+            lost: row.lost,
+            overtimeLosses: row.overtimeLosses,
+            goalsFor: row.goalsFor,
+            goalsAgainst: row.goalsAgainst,
+            points: row.points
+          })),
+        results
+          .filter(result => result.competition === name)
+          .map(result => ({
+            team1Id: result.team1Id,
+            team2Id: result.team2Id,
+            lines: [result.lines[0], result.lines[1]]
+          })),
+        rule.tieBreakers
+      );
+
+      return {
+        sport,
+        competition: name,
+        rule: rule.name,
+        tieBreakers: rule.tieBreakers,
+        rows: ranked.map((row, index) => ({ ...row, rank: index + 1, name: names.get(row.teamId) }))
+      };
+    });
+  }
+
+  hasStandings(sport: string): boolean {
+    return this.ruleFor(sport) !== undefined;
+  }
+
+  private ruleFor(sport: string): StandingsRule | undefined {
+    const name = this.sportRegistry.get(sport)?.standings;
+    return name ? STANDINGS_RULES[name] : undefined;
+  }
+
+  private countedResult(game: Game): CountedResult | null {
+    const rule = this.ruleFor(game.getSport());
+    const team1Id = game.getTeam1Id();
+    const team2Id = game.getTeam2Id();
+
+    if (!rule || !game.getStatus().isFinished() || !team1Id || !team2Id) {
+      return null;
+    }
+
+    const score1 = game.getScore().getTeam1Score();
+    const score2 = game.getScore().getTeam2Score();
+    const decision = decidedIn(game);
+
+    return {
+      gameId: game.getGameId(),
+      sport: game.getSport(),
+      competition: game.getCompetition() || DEFAULT_COMPETITION,
+      team1Id,
+      team2Id,
+      score1,
+      score2,
+      decidedIn: decision,
+      rule: rule.name,
+      lines: rule.score(score1, score2, decision)
+    };
+  }
+}
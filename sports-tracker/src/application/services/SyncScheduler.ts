@@ -0,0 +1,108 @@
+import { GameSyncService, SportSyncOutcome } from './GameSyncService';
+
+export interface PollingOptions {
+  // While the feed has a LIVE game
+  liveIntervalMs: number;
+  // While the feed has SCHEDULED games but none live
+  intervalMs: number;
+  // When the feed has neither (everything finished, or empty)
+  idleIntervalMs: number;
+}
+
+export const DEFAULT_POLLING: PollingOptions = {
+  liveIntervalMs: 2000,
+  intervalMs: 5000,
+  idleIntervalMs: 30000
+};
+
+export interface ScheduledSport {
+  sport: string;
+  polling: PollingOptions;
+}
+
+type PollingMode = 'live' | 'upcoming' | 'idle';
+
+interface SportSchedule extends ScheduledSport {
+  mode: PollingMode;
+  timer?: NodeJS.Timeout;
+}
+
+// Polls each sport on its own timer. The next run is scheduled only once the
+// previous one is done, so a sport never overlaps itself however slow its
+// provider is, and sports don't wait for each other.
+export class SyncScheduler {
+  private readonly schedules: Map<string, SportSchedule>;
+  private isRunning: boolean = false;
+
+  constructor(
+    private readonly syncService: GameSyncService,
+    sports: ScheduledSport[]
+  ) {
+    this.schedules = new Map(
+      sports.map(sport => [sport.sport, { ...sport, mode: 'upcoming' as PollingMode }])
+    );
+  }
+
+  // Resolves after the first run of every sport
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      console.log('Polling already running');
+      return;
+    }
+
+    this.isRunning = true;
+    this.schedules.forEach(schedule => {
+      const { liveIntervalMs, intervalMs, idleIntervalMs } = schedule.polling;
+      console.log(`${schedule.sport}: Polling every ${liveIntervalMs}/${intervalMs}/${idleIntervalMs} ms (live/upcoming/idle)`);
+    });
+
+    await Promise.all(Array.from(this.schedules.values()).map(schedule => this.run(schedule)));
+  }
+
+  stop(): void {
+    this.isRunning = false;
+    this.schedules.forEach(schedule => {
+      clearTimeout(schedule.timer);
+      schedule.timer = undefined;
+    });
+    console.log('Polling stopped');
+  }
+
+  private async run(schedule: SportSchedule): Promise<void> {
+    schedule.timer = undefined;
+
+    const outcome = await this.syncService.syncSport(schedule.sport);
+
+    // A failed fetch tells nothing about the games: keep the current pace,
+    // the circuit breaker takes care of a provider that stays down
+    if (outcome.ok) {
+      this.updateMode(schedule, outcome);
+    }
+
+    if (this.isRunning) {
+      schedule.timer = setTimeout(() => this.run(schedule), this.intervalFor(schedule));
+    }
+  }
+
+  private updateMode(schedule: SportSchedule, outcome: SportSyncOutcome): void {
+    const mode: PollingMode = outcome.liveGames > 0
+      ? 'live'
+      : outcome.scheduledGames > 0 ? 'upcoming' : 'idle';
+
+    if (mode !== schedule.mode) {
+      console.log(`${schedule.sport}: Polling ${schedule.mode} → ${mode}, every ${this.intervalFor({ ...schedule, mode })} ms`);
+      schedule.mode = mode;
+    }
+  }
+
+  private intervalFor(schedule: SportSchedule): number {
+    switch (schedule.mode) {
+      case 'live':
+        return schedule.polling.liveIntervalMs;
+      case 'idle':
+        return schedule.polling.idleIntervalMs;
+      default:
+        return schedule.polling.intervalMs;
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import { Team } from '../../domain/entities/Team';
+import { ITeamResolver } from '../../infrastructure/adapters/ISportAdapter';
+import { TeamRepository, TeamFilter } from '../../infrastructure/persistence/TeamRepository';
+import { GameRepository, GamePage } from '../../infrastructure/persistence/GameRepository';
+import { TeamSeed } from '../../config/teams';
+
+export interface HeadToHeadRecord {
+  // Finished games only
+  played: number;
+  wins: { [teamId: string]: number };
+  draws: number;
+}
+
+export interface HeadToHead {
+  teams: [Team, Team];
+  record: HeadToHeadRecord;
+  // Finished games, most recent first
+  recent: any[];
+}
+
+export interface TeamGamesQuery {
+  status?: string;
+  limit: number;
+  cursor?: string;
+}
+
+// The team registry: resolves feed spellings to stable team IDs (adapters
+// call resolve while mapping) and answers the /api/teams queries
+export class TeamService implements ITeamResolver {
+  // sport|source|normalized name → teamId; team IDs never change
+  private resolved = new Map<string, string>();
+
+  constructor(
+    private teams: TeamRepository,
+    private gameRepository: GameRepository
+  ) {}
+
+  async resolve(sport: string, source: string, name: string): Promise<string | undefined> {
+    const key = `${sport}|${source}|${Team.normalizeName(name)}`;
+    const cached = this.resolved.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const teamId = await this.findOrRegister(sport, source, name);
+      this.resolved.set(key, teamId);
+      return teamId;
+    } catch (error) {
+      console.error(`${sport}: Error resolving team "${name}":`, error);
+      return undefined;
+    }
+  }
+
+  private async findOrRegister(sport: string, source: string, name: string): Promise<string> {
+    const existing = await this.teams.findByName(sport, name);
+
+    if (existing) {
+      if (!existing.hasAlias(name, source)) {
+        await this.teams.addAlias(existing.getTeamId(), { source, name });
+      }
+      return existing.getTeamId();
+    }
+
+    const team = Team.create(sport, name, source);
+    if (await this.teams.create(team)) {
+      console.log(`${sport}: New team ${team.getTeamId()} ("${name}" from ${source})`);
+      return team.getTeamId();
+    }
+
+    // Registered by a concurrent sync in the meantime
+    const registered = await this.teams.findByName(sport, name);
+    if (!registered) {
+      throw new Error(`Team ID ${team.getTeamId()} is taken by another team`);
+    }
+    return registered.getTeamId();
+  }
+
+  // Adds seeded teams and aliases; never removes or renames anything
+  async seed(seeds: TeamSeed[]): Promise<void> {
+    for (const seed of seeds) {
+      const sport = seed.sport.toUpperCase();
+      const team = new Team(
+        Team.idFor(sport, seed.name),
+        sport,
+        seed.name,
+        (seed.aliases || []).map(name => ({ source: 'seed', name }))
+      );
+
+      const existing = await this.teams.findById(team.getTeamId());
+      if (!existing) {
+        if (!await this.teams.create(team)) {
+          console.warn(`${sport}: Seeded team ${team.getTeamId()} not added, one of its names belongs to another team`);
+        }
+        continue;
+      }
+
+      for (const alias of team.getAliases()) {
+        if (!existing.hasAlias(alias.name) && !await this.teams.addAlias(existing.getTeamId(), alias)) {
+          console.warn(`${sport}: Alias "${alias.name}" not added to ${existing.getTeamId()}, it belongs to another team`);
+        }
+      }
+    }
+  }
+
+  async list(filter: TeamFilter): Promise<Team[]> {
+    return await this.teams.find(filter);
+  }
+
+  async get(teamId: string): Promise<Team | null> {
+    return await this.teams.findById(teamId);
+  }
+
+  // Null when there is no such team
+  async getGames(teamId: string, query: TeamGamesQuery): Promise<GamePage | null> {
+    const team = await this.teams.findById(teamId);
+    if (!team) {
+      return null;
+    }
+
+    return await this.gameRepository.findPage({
+      teamId,
+      status: query.status,
+      dateField: 'createdAt',
+      sort: { field: 'createdAt', direction: -1 },
+      limit: query.limit,
+      cursor: query.cursor
+    });
+  }
+
+  // Null when either team doesn't exist
+  async headToHead(teamIdA: string, teamIdB: string, recentLimit: number): Promise<HeadToHead | null> {
+    const [teamA, teamB] = await Promise.all([
+      this.teams.findById(teamIdA),
+      this.teams.findById(teamIdB)
+    ]);
+    if (!teamA || !teamB) {
+      return null;
+    }
+
+    const finished = (await this.gameRepository.findHeadToHead(teamIdA, teamIdB))
+      .filter(game => game.status === 'FINISHED');
+
+    const record: HeadToHeadRecord = {
+      played: finished.length,
+      wins: { [teamIdA]: 0, [teamIdB]: 0 },
+      draws: 0
+    };
+
+    finished.forEach(game => {
+      const scoreA = game.team1Id === teamIdA ? game.score1 : game.score2;
+      const scoreB = game.team1Id === teamIdA ? game.score2 : game.score1;
+
+      if (scoreA > scoreB) record.wins[teamIdA]++;
+      else if (scoreB > scoreA) record.wins[teamIdB]++;
+      else record.draws++;
+    });
+
+    return {
+      teams: [teamA, teamB],
+      record,
+      recent: finished.slice(0, recentLimit)
+    };
+  }
+}
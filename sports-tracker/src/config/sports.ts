@@ -0,0 +1,150 @@
+import { ISportAdapter, SportAdapterConfig, ITeamResolver } from '../infrastructure/adapters/ISportAdapter';
+import { MappingAdapter } from '../infrastructure/adapters/mapping/MappingAdapter';
+import { loadFeedSpec } from '../infrastructure/adapters/mapping/FeedSpec';
+import {
+  ResilientHttpClient,
+  HttpClientOptions,
+  DEFAULT_HTTP_OPTIONS
+} from '../infrastructure/http/ResilientHttpClient';
+import { PollingOptions, DEFAULT_POLLING } from '../application/services/SyncScheduler';
+
+export interface SportDefinition {
+  // Stored on every game, used in routes, topics and env variables
+  id: string;
+  displayName: string;
+  defaultApiUrl: string;
+  // What score1/score2 count
+  score: {
+    unit: string;
+    description: string;
+  };
+  // Builds the adapter; by default a MappingAdapter over a feed spec
+  createAdapter(config: SportAdapterConfig): ISportAdapter;
+  // Name of a rule in STANDINGS_RULES; no standings without one
+  standings?: string;
+}
+
+// Sports whose provider is described by a spec in config/feeds
+function mappedFeed(specFile: string): SportDefinition['createAdapter'] {
+  return config => new MappingAdapter(loadFeedSpec(specFile), config);
+}
+
+export interface SportConfig extends SportDefinition {
+  enabled: boolean;
+  apiUrl: string;
+  http: HttpClientOptions;
+  polling: PollingOptions;
+  // HMAC key for POST /api/ingest/:sport; pushing is off without one
+  webhookSecret?: string;
+}
+
+export const SPORTS: SportDefinition[] = [
+  {
+    id: 'SOCCER',
+    displayName: 'Soccer',
+    defaultApiUrl: 'http://localhost:3001',
+    score: { unit: 'goals', description: 'Goals scored; a penalty shootout is kept in sportState' },
+    createAdapter: mappedFeed('soccer.json'),
+    standings: 'THREE_ONE_ZERO'
+  },
+  {
+    id: 'TENNIS',
+    displayName: 'Tennis',
+    defaultApiUrl: 'http://localhost:3002',
+    score: { unit: 'sets', description: 'Sets won; games and points are kept in sportState' },
+    createAdapter: mappedFeed('tennis.json'),
+    standings: 'WIN_LOSS'
+  },
+  {
+    id: 'HOCKEY',
+    displayName: 'Hockey',
+    defaultApiUrl: 'http://localhost:3003',
+    score: { unit: 'goals', description: 'Goals scored, plus one for a shootout winner' },
+    createAdapter: mappedFeed('hockey.json'),
+    standings: 'OVERTIME_LOSS'
+  },
+  {
+    id: 'BASKETBALL',
+    displayName: 'Basketball',
+    defaultApiUrl: 'http://localhost:3004',
+    score: { unit: 'points', description: 'Points scored; SCORE_UPDATED carries the delta since the last poll' },
+    createAdapter: mappedFeed('basketball.json'),
+    standings: 'WIN_LOSS'
+  }
+];
+
+// Every sport the tracker knows, enabled or not. Games of a disabled
+// sport stay valid and queryable.
+export const SPORT_IDS = SPORTS.map(sport => sport.id);
+
+function envNumber(env: NodeJS.ProcessEnv, key: string, fallback: number): number {
+  const value = parseInt(env[key] || '');
+  return Number.isNaN(value) || value < 0 ? fallback : value;
+}
+
+// Sports with their runtime settings. Each sport reads <ID>_ENABLED
+// (default true), <ID>_API_URL, <ID>_TIMEOUT_MS, <ID>_RETRIES and
+// <ID>_POLL_LIVE_MS / <ID>_POLL_INTERVAL_MS / <ID>_POLL_IDLE_MS and
+// <ID>_WEBHOOK_SECRET from the environment. POLL_INTERVAL sets the default
+// of <ID>_POLL_INTERVAL_MS.
+export class SportRegistry {
+  private readonly sports: Map<string, SportConfig>;
+
+  constructor(definitions: SportDefinition[] = SPORTS, env: NodeJS.ProcessEnv = process.env) {
+    this.sports = new Map();
+    const intervalMs = envNumber(env, 'POLL_INTERVAL', DEFAULT_POLLING.intervalMs);
+
+    definitions.forEach(definition => {
+      const enabled = env[`${definition.id}_ENABLED`];
+
+      this.sports.set(definition.id, {
+        ...definition,
+        enabled: enabled === undefined || !['false', '0', 'no'].includes(enabled.toLowerCase()),
+        apiUrl: env[`${definition.id}_API_URL`] || definition.defaultApiUrl,
+        http: {
+          ...DEFAULT_HTTP_OPTIONS,
+          timeoutMs: envNumber(env, `${definition.id}_TIMEOUT_MS`, DEFAULT_HTTP_OPTIONS.timeoutMs),
+          retries: envNumber(env, `${definition.id}_RETRIES`, DEFAULT_HTTP_OPTIONS.retries)
+        },
+        polling: {
+          liveIntervalMs: envNumber(env, `${definition.id}_POLL_LIVE_MS`, DEFAULT_POLLING.liveIntervalMs),
+          intervalMs: envNumber(env, `${definition.id}_POLL_INTERVAL_MS`, intervalMs),
+          idleIntervalMs: envNumber(env, `${definition.id}_POLL_IDLE_MS`, DEFAULT_POLLING.idleIntervalMs)
+        },
+        webhookSecret: env[`${definition.id}_WEBHOOK_SECRET`] || undefined
+      });
+    });
+  }
+
+  getAll(): SportConfig[] {
+    return Array.from(this.sports.values());
+  }
+
+  getEnabled(): SportConfig[] {
+    return this.getAll().filter(sport => sport.enabled);
+  }
+
+  getIds(): string[] {
+    return Array.from(this.sports.keys());
+  }
+
+  // Case-insensitive, so route params like "hockey" resolve
+  get(id: string): SportConfig | undefined {
+    return this.sports.get(id.toUpperCase());
+  }
+
+  has(id: string): boolean {
+    return this.sports.has(id.toUpperCase());
+  }
+
+  createAdapters(teams?: ITeamResolver): ISportAdapter[] {
+    return this.getEnabled().map(sport =>
+      sport.createAdapter({
+        sport: sport.id,
+        apiUrl: sport.apiUrl,
+        http: new ResilientHttpClient(sport.displayName, sport.http),
+        teams
+      })
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import fs from 'fs';
+import path from 'path';
+
+// Teams known up front, with the other spellings feeds use for them.
+// Teams not listed are registered as the feeds first name them.
+export interface TeamSeed {
+  sport: string;
+  name: string;
+  aliases?: string[];
+}
+
+export const TEAM_SEED_FILE = path.resolve(__dirname, '../../config/teams.json');
+
+// No file means nothing to seed; a malformed one is a startup error
+export function loadTeamSeeds(file: string = TEAM_SEED_FILE): TeamSeed[] {
+  if (!fs.existsSync(file)) {
+    return [];
+  }
+
+  const seeds: unknown = JSON.parse(fs.readFileSync(file, 'utf8'));
+  const isSeed = (seed: any) =>
+    typeof seed?.sport === 'string' &&
+    typeof seed.name === 'string' &&
+    (seed.aliases === undefined ||
+      (Array.isArray(seed.aliases) && seed.aliases.every((alias: unknown) => typeof alias === 'string')));
+
+  if (!Array.isArray(seeds) || !seeds.every(isSeed)) {
+    throw new Error(`${path.basename(file)}: expected a list of { sport, name, aliases? }`);
+  }
+
+  return seeds;
+}
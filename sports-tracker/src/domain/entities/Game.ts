@@ -1,15 +1,17 @@
 import { Score } from '../value-objects/Score';
 import { GameStatus, GameStatusEnum } from '../value-objects/GameStatus';
+import { SportState } from '../value-objects/SportState';
+import { GameRule, checkStatusTransition, checkScoreChange } from '../rules/GameRules';
 
-export enum SportType {
-  SOCCER = 'SOCCER',
-  TENNIS = 'TENNIS',
-  HOCKEY = 'HOCKEY'
-}
+// Sport id, e.g. 'SOCCER'. The known sports live in the sport registry
+// (src/config/sports.ts), so adding one doesn't touch the domain.
+export type SportType = string;
 
 export interface Participant {
   name: string;
   side: 'TEAM1' | 'TEAM2';
+  // Team registry ID (GET /api/teams); unset until the name is resolved
+  teamId?: string;
 }
 
 export interface GameEvent {
@@ -17,21 +19,40 @@ export interface GameEvent {
   eventType: string;
   timestamp: Date;
   team?: string;
+  side?: Participant['side'];
   player?: number;
+  // Points the play scored, for sports where that varies (basketball)
+  points?: number;
   minute?: number;
   period?: number;
   payload: any;
 }
 
+export interface GameUpdateOutcome {
+  previousStatus: GameStatusEnum;
+  newStatus: GameStatusEnum;
+  statusViolation: GameRule | null;
+  previousScore: Score;
+  newScore: Score;
+  scoreViolation: GameRule | null;
+}
+
 export class Game {
   private readonly gameId: string;
+  // ID used by the upstream feed. Feeds reuse IDs for new matches, so each
+  // match instance gets its own gameId linked to the provider ID.
+  private readonly providerGameId: string;
   private readonly sport: SportType;
   private readonly participants: Participant[];
   private score: Score;
+  // Sport-specific detail behind the unified score (e.g. tennis games and points)
+  private sportState?: SportState;
   private status: GameStatus;
   private currentTime: string;
   private events: GameEvent[];
   private lastUpdated: Date;
+  // League or tournament, as the feed names it; standings are per competition
+  private readonly competition?: string;
 
   constructor(
     gameId: string,
@@ -40,7 +61,11 @@ export class Game {
     score?: Score,
     status?: GameStatus,
     currentTime?: string,
-    events?: GameEvent[]
+    events?: GameEvent[],
+    lastUpdated?: Date,
+    providerGameId?: string,
+    sportState?: SportState,
+    competition?: string
   ) {
     // Validation
     if (!gameId || gameId.trim() === '') {
@@ -51,13 +76,16 @@ export class Game {
     }
 
     this.gameId = gameId;
+    this.providerGameId = providerGameId || gameId;
     this.sport = sport;
     this.participants = participants;
     this.score = score || Score.zero();
+    this.sportState = sportState;
     this.status = status || GameStatus.scheduled();
     this.currentTime = currentTime || '';
     this.events = events || [];
-    this.lastUpdated = new Date();
+    this.lastUpdated = lastUpdated || new Date();
+    this.competition = competition;
   }
 
   static create(
@@ -73,6 +101,23 @@ export class Game {
     return new Game(gameId, sport, participants);
   }
 
+  // Same match state under another aggregate ID (a new instance of the fixture)
+  forInstance(gameId: string): Game {
+    return new Game(
+      gameId,
+      this.sport,
+      this.participants.map(participant => ({ ...participant })),
+      this.score,
+      this.status,
+      this.currentTime,
+      this.events,
+      this.lastUpdated,
+      this.providerGameId,
+      this.sportState,
+      this.competition
+    );
+  }
+
   start(): void {
     if (!this.status.isScheduled()) {
       throw new Error('Can only start scheduled games');
@@ -105,13 +150,55 @@ export class Game {
     this.lastUpdated = new Date();
   }
 
-  updateScore(team1Score: number, team2Score: number): void {
-    this.score = Score.create(team1Score, team2Score);
+  // Applies a provider's status and score through the domain rules. Legal
+  // changes go through start()/scoreTeamN()/finish(); changes that break a
+  // rule are applied as corrections and the broken rule is reported.
+  applyUpdate(status: GameStatusEnum, score: Score): GameUpdateOutcome {
+    const previousStatus = this.status.getValue();
+    const previousScore = this.score;
+
+    const statusViolation = checkStatusTransition(previousStatus, status);
+    const scoreViolation = checkScoreChange(previousScore, score, previousStatus, status);
+
+    if (statusViolation) {
+      this.correctStatus(status);
+    } else if (status !== previousStatus && this.status.isScheduled()) {
+      this.start();
+    }
+
+    if (scoreViolation) {
+      this.correctScore(score);
+    } else {
+      while (this.score.getTeam1Score() < score.getTeam1Score()) {
+        this.scoreTeam1();
+      }
+      while (this.score.getTeam2Score() < score.getTeam2Score()) {
+        this.scoreTeam2();
+      }
+    }
+
+    // Finish last so goals arriving with the final whistle still count
+    if (!statusViolation && status === GameStatusEnum.FINISHED && this.status.isLive()) {
+      this.finish();
+    }
+
+    return {
+      previousStatus,
+      newStatus: this.status.getValue(),
+      statusViolation,
+      previousScore,
+      newScore: this.score,
+      scoreViolation
+    };
+  }
+
+  private correctStatus(status: GameStatusEnum): void {
+    this.status = new GameStatus(status);
     this.lastUpdated = new Date();
   }
 
-  updateStatus(newStatus: GameStatusEnum): void {
-    this.status = new GameStatus(newStatus);
+  private correctScore(score: Score): void {
+    this.score = score;
     this.lastUpdated = new Date();
   }
 
@@ -120,6 +207,12 @@ export class Game {
     this.lastUpdated = new Date();
   }
 
+  // Links the participants to the team registry. Names stay as the feed sent them.
+  assignTeams(team1Id?: string, team2Id?: string): void {
+    this.participants[0] = { ...this.participants[0], teamId: team1Id };
+    this.participants[1] = { ...this.participants[1], teamId: team2Id };
+  }
+
   addEvent(event: GameEvent): void {
     this.events.push(event);
     this.lastUpdated = new Date();
@@ -133,6 +226,10 @@ export class Game {
     return this.gameId;
   }
 
+  getProviderGameId(): string {
+    return this.providerGameId;
+  }
+
   getSport(): SportType {
     return this.sport;
   }
@@ -141,6 +238,10 @@ export class Game {
     return [...this.participants];
   }
 
+  getCompetition(): string | undefined {
+    return this.competition;
+  }
+
   getTeam1Name(): string {
     return this.participants[0].name;
   }
@@ -149,10 +250,22 @@ export class Game {
     return this.participants[1].name;
   }
 
+  getTeam1Id(): string | undefined {
+    return this.participants[0].teamId;
+  }
+
+  getTeam2Id(): string | undefined {
+    return this.participants[1].teamId;
+  }
+
   getScore(): Score {
     return this.score;
   }
 
+  getSportState(): SportState | undefined {
+    return this.sportState;
+  }
+
   getStatus(): GameStatus {
     return this.status;
   }
@@ -176,11 +289,16 @@ export class Game {
   toObject() {
     return {
       gameId: this.gameId,
+      providerGameId: this.providerGameId,
       sport: this.sport,
+      competition: this.competition,
       team1: this.participants[0].name,
       team2: this.participants[1].name,
+      team1Id: this.participants[0].teamId,
+      team2Id: this.participants[1].teamId,
       score1: this.score.getTeam1Score(),
       score2: this.score.getTeam2Score(),
+      sportState: this.sportState?.toJSON(),
       status: this.status.getValue(),
       currentTime: this.currentTime,
       events: this.events,
@@ -0,0 +1,82 @@
+import { SportType } from './Game';
+
+// A spelling of the team's name as a source sends it
+export interface TeamAlias {
+  // e.g. 'soccer-api', or 'seed' for config/teams.json
+  source: string;
+  name: string;
+}
+
+// A club or player, per sport, known under one or more names
+export class Team {
+  private readonly teamId: string;
+  private readonly sport: SportType;
+  private readonly name: string;
+  private readonly aliases: TeamAlias[];
+
+  constructor(teamId: string, sport: SportType, name: string, aliases: TeamAlias[] = []) {
+    if (!name || Team.normalizeName(name) === '') {
+      throw new Error('Team name is required');
+    }
+
+    this.teamId = teamId;
+    this.sport = sport;
+    this.name = name;
+    this.aliases = aliases.map(alias => ({ ...alias }));
+
+    if (!this.hasAlias(name)) {
+      this.aliases.unshift({ source: 'canonical', name });
+    }
+  }
+
+  // "Équipe  1-A" and "equipe 1 a" are the same name
+  static normalizeName(name: string): string {
+    return name
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim();
+  }
+
+  // Stable ID from the name the team was first seen under, e.g. soccer-team-1a
+  static idFor(sport: SportType, name: string): string {
+    return `${sport.toLowerCase()}-${Team.normalizeName(name).replace(/ /g, '-')}`;
+  }
+
+  static create(sport: SportType, name: string, source: string): Team {
+    return new Team(Team.idFor(sport, name), sport, name, [{ source, name }]);
+  }
+
+  hasAlias(name: string, source?: string): boolean {
+    const normalized = Team.normalizeName(name);
+    return this.aliases.some(alias =>
+      Team.normalizeName(alias.name) === normalized && (source === undefined || alias.source === source)
+    );
+  }
+
+  getTeamId(): string {
+    return this.teamId;
+  }
+
+  getSport(): SportType {
+    return this.sport;
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  getAliases(): TeamAlias[] {
+    return this.aliases.map(alias => ({ ...alias }));
+  }
+
+  toObject() {
+    return {
+      teamId: this.teamId,
+      sport: this.sport,
+      name: this.name,
+      aliases: this.getAliases()
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Game } from '../entities/Game';
+import { GameStatus, GameStatusEnum } from '../value-objects/GameStatus';
+import { Score } from '../value-objects/Score';
+import { GameRule, checkScoreChange, checkStatusTransition } from './GameRules';
+
+const { SCHEDULED, LIVE, FINISHED } = GameStatusEnum;
+
+test('status transitions: forward ones are allowed, backward ones are corrections', () => {
+  const cases: [GameStatusEnum, GameStatusEnum, GameRule | null][] = [
+    [SCHEDULED, SCHEDULED, null],
+    [SCHEDULED, LIVE, null],
+    // Every LIVE poll missed
+    [SCHEDULED, FINISHED, null],
+    [LIVE, LIVE, null],
+    [LIVE, FINISHED, null],
+    [FINISHED, FINISHED, null],
+    [LIVE, SCHEDULED, GameRule.LIVE_TO_SCHEDULED],
+    [FINISHED, LIVE, GameRule.FINISHED_TO_LIVE],
+    [FINISHED, SCHEDULED, GameRule.FINISHED_TO_SCHEDULED]
+  ];
+
+  for (const [from, to, expected] of cases) {
+    assert.equal(checkStatusTransition(from, to), expected, `${from} → ${to}`);
+  }
+});
+
+test('score changes: goals while live are updates, anything else is a correction', () => {
+  const cases: [string, string, GameStatusEnum, GameStatusEnum, GameRule | null][] = [
+    ['1-0', '1-0', FINISHED, FINISHED, null],
+    ['1-0', '2-0', LIVE, LIVE, null],
+    ['0-0', '1-0', SCHEDULED, LIVE, null],
+    // The final goal arriving with the final whistle
+    ['1-1', '2-1', LIVE, FINISHED, null],
+    ['2-1', '1-1', LIVE, LIVE, GameRule.SCORE_DECREASED],
+    ['2-1', '3-0', LIVE, LIVE, GameRule.SCORE_DECREASED],
+    ['2-1', '2-2', FINISHED, FINISHED, GameRule.SCORE_AFTER_FINISH],
+    ['0-0', '1-0', SCHEDULED, SCHEDULED, GameRule.SCORE_BEFORE_START]
+  ];
+
+  const score = (text: string) => {
+    const [team1, team2] = text.split('-').map(Number);
+    return Score.create(team1, team2);
+  };
+
+  for (const [previous, next, previousStatus, newStatus, expected] of cases) {
+    assert.equal(
+      checkScoreChange(score(previous), score(next), previousStatus, newStatus),
+      expected,
+      `${previous} → ${next} (${previousStatus} → ${newStatus})`
+    );
+  }
+});
+
+test('a falling score is applied as a correction', () => {
+  const game = new Game(
+    'M1',
+    'SOCCER',
+    [{ name: 'Home', side: 'TEAM1' }, { name: 'Away', side: 'TEAM2' }],
+    Score.create(2, 1),
+    GameStatus.live()
+  );
+
+  const outcome = game.applyUpdate(LIVE, Score.create(1, 1));
+
+  assert.equal(outcome.scoreViolation, GameRule.SCORE_DECREASED);
+  assert.equal(outcome.statusViolation, null);
+  assert.equal(outcome.previousScore.getTeam1Score(), 2);
+  assert.equal(game.getScore().getTeam1Score(), 1);
+  assert.equal(game.getStatus().getValue(), LIVE);
+});
@@ -0,0 +1,61 @@
+import { GameStatusEnum } from '../value-objects/GameStatus';
+import { Score } from '../value-objects/Score';
+
+// Rules a provider update can break. Breaking one is recorded as a
+// correction (STATUS_CORRECTED / SCORE_CORRECTED) naming the rule.
+export enum GameRule {
+  LIVE_TO_SCHEDULED = 'LIVE_TO_SCHEDULED',
+  FINISHED_TO_LIVE = 'FINISHED_TO_LIVE',
+  FINISHED_TO_SCHEDULED = 'FINISHED_TO_SCHEDULED',
+  SCORE_DECREASED = 'SCORE_DECREASED',
+  SCORE_BEFORE_START = 'SCORE_BEFORE_START',
+  SCORE_AFTER_FINISH = 'SCORE_AFTER_FINISH'
+}
+
+const ALLOWED_TRANSITIONS: { [from: string]: GameStatusEnum[] } = {
+  // SCHEDULED → FINISHED happens when every LIVE poll was missed
+  [GameStatusEnum.SCHEDULED]: [GameStatusEnum.LIVE, GameStatusEnum.FINISHED],
+  [GameStatusEnum.LIVE]: [GameStatusEnum.FINISHED],
+  [GameStatusEnum.FINISHED]: []
+};
+
+export function checkStatusTransition(
+  from: GameStatusEnum,
+  to: GameStatusEnum
+): GameRule | null {
+  if (from === to || ALLOWED_TRANSITIONS[from].includes(to)) {
+    return null;
+  }
+
+  return `${from}_TO_${to}` as GameRule;
+}
+
+// A poll can change status and score at once: goals are allowed while the
+// game was or becomes LIVE, e.g. the final goal arriving with LIVE → FINISHED
+export function checkScoreChange(
+  previous: Score,
+  next: Score,
+  previousStatus: GameStatusEnum,
+  newStatus: GameStatusEnum
+): GameRule | null {
+  if (previous.equals(next)) {
+    return null;
+  }
+
+  if (
+    next.getTeam1Score() < previous.getTeam1Score() ||
+    next.getTeam2Score() < previous.getTeam2Score()
+  ) {
+    return GameRule.SCORE_DECREASED;
+  }
+
+  if (previousStatus === GameStatusEnum.FINISHED) {
+    return GameRule.SCORE_AFTER_FINISH;
+  }
+
+  if (newStatus === GameStatusEnum.SCHEDULED) {
+    return GameRule.SCORE_BEFORE_START;
+  }
+
+  return null;
+}
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Game } from '../entities/Game';
+import { Score } from '../value-objects/Score';
+import { GameStatus } from '../value-objects/GameStatus';
+import { HockeyState } from '../value-objects/HockeyState';
+import { STANDINGS_RULES, decidedIn } from './StandingsRules';
+
+const { THREE_ONE_ZERO, OVERTIME_LOSS } = STANDINGS_RULES;
+
+test('3/1/0 scores a win, a draw and a loss', () => {
+  const [winner, loser] = THREE_ONE_ZERO.score(2, 1, 'REGULATION');
+  assert.deepEqual(
+    [winner.points, winner.won, winner.goalsFor, winner.goalsAgainst],
+    [3, 1, 2, 1]
+  );
+  assert.deepEqual([loser.points, loser.lost, loser.goalsFor, loser.goalsAgainst], [0, 1, 1, 2]);
+
+  const [home, away] = THREE_ONE_ZERO.score(1, 1, 'REGULATION');
+  assert.deepEqual([home.points, home.drawn, away.points, away.drawn], [1, 1, 1, 1]);
+
+  // Soccer has no overtime point
+  const [extraTimeLoser] = THREE_ONE_ZERO.score(2, 3, 'OVERTIME');
+  assert.deepEqual([extraTimeLoser.points, extraTimeLoser.overtimeLosses], [0, 0]);
+});
+
+test('hockey gives a point for a loss in overtime or a shootout', () => {
+  const cases = [
+    { decided: 'REGULATION', loserPoints: 0, overtimeLosses: 0 },
+    { decided: 'OVERTIME', loserPoints: 1, overtimeLosses: 1 },
+    { decided: 'SHOOTOUT', loserPoints: 1, overtimeLosses: 1 }
+  ] as const;
+
+  for (const { decided, loserPoints, overtimeLosses } of cases) {
+    const [loser, winner] = OVERTIME_LOSS.score(2, 3, decided);
+    assert.equal(winner.points, 2, decided);
+    assert.equal(winner.won, 1, decided);
+    assert.equal(loser.points, loserPoints, decided);
+    assert.equal(loser.lost, 1, decided);
+    assert.equal(loser.overtimeLosses, overtimeLosses, decided);
+  }
+});
+
+test('reads how a hockey game was decided from its periods and shootout', () => {
+  const hockeyGame = (state: HockeyState) => new Game(
+    'H1',
+    'HOCKEY',
+    [{ name: 'Home', side: 'TEAM1' }, { name: 'Away', side: 'TEAM2' }],
+    Score.create(3, 2),
+    GameStatus.finished(),
+    'Final',
+    [],
+    new Date(),
+    'H1',
+    state
+  );
+
+  assert.equal(decidedIn(hockeyGame(new HockeyState(3, 'FINAL', 0))), 'REGULATION');
+  assert.equal(decidedIn(hockeyGame(new HockeyState(4, 'FINAL', 0))), 'OVERTIME');
+  assert.equal(
+    decidedIn(hockeyGame(new HockeyState(4, 'FINAL', 0, [], [], { team1: 2, team2: 1 }))),
+    'SHOOTOUT'
+  );
+});
@@ -0,0 +1,105 @@
+import { Game } from '../entities/Game';
+
+// How a finished game was decided; only hockey tells them apart in points
+export type ResultDecision = 'REGULATION' | 'OVERTIME' | 'SHOOTOUT';
+
+// What one finished game adds to one team's standings row
+export interface StandingsLine {
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  // Losses in overtime or a shootout, counted in lost as well
+  overtimeLosses: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  points: number;
+}
+
+// Applied in order after points; teams still level are ordered by team ID
+export type TieBreaker = 'GOAL_DIFFERENCE' | 'GOALS_FOR' | 'HEAD_TO_HEAD';
+
+export interface StandingsRule {
+  name: string;
+  tieBreakers: TieBreaker[];
+  // Lines for team1 and team2
+  score(score1: number, score2: number, decidedIn: ResultDecision): [StandingsLine, StandingsLine];
+}
+
+export const EMPTY_LINE: StandingsLine = {
+  played: 0,
+  won: 0,
+  drawn: 0,
+  lost: 0,
+  overtimeLosses: 0,
+  goalsFor: 0,
+  goalsAgainst: 0,
+  points: 0
+};
+
+const DEFAULT_TIE_BREAKERS: TieBreaker[] = ['GOAL_DIFFERENCE', 'GOALS_FOR', 'HEAD_TO_HEAD'];
+
+function line(goalsFor: number, goalsAgainst: number, result: Partial<StandingsLine>): StandingsLine {
+  return { ...EMPTY_LINE, played: 1, goalsFor, goalsAgainst, ...result };
+}
+
+function byResult(
+  points: { win: number; draw: number; loss: number; overtimeLoss?: number }
+): StandingsRule['score'] {
+  return (score1, score2, decidedIn) => {
+    if (score1 === score2) {
+      return [
+        line(score1, score2, { drawn: 1, points: points.draw }),
+        line(score2, score1, { drawn: 1, points: points.draw })
+      ];
+    }
+
+    const inOvertime = decidedIn !== 'REGULATION' && points.overtimeLoss !== undefined;
+    const loser = inOvertime
+      ? { lost: 1, overtimeLosses: 1, points: points.overtimeLoss! }
+      : { lost: 1, points: points.loss };
+    const winner = { won: 1, points: points.win };
+
+    return score1 > score2
+      ? [line(score1, score2, winner), line(score2, score1, loser)]
+      : [line(score1, score2, loser), line(score2, score1, winner)];
+  };
+}
+
+// Sports name theirs in the sport registry (src/config/sports.ts)
+export const STANDINGS_RULES: { [name: string]: StandingsRule } = {
+  // Soccer: 3 for a win, 1 for a draw
+  THREE_ONE_ZERO: {
+    name: 'THREE_ONE_ZERO',
+    tieBreakers: DEFAULT_TIE_BREAKERS,
+    score: byResult({ win: 3, draw: 1, loss: 0 })
+  },
+  // Hockey: 2 for any win, 1 for a loss in overtime or a shootout
+  OVERTIME_LOSS: {
+    name: 'OVERTIME_LOSS',
+    tieBreakers: DEFAULT_TIE_BREAKERS,
+    score: byResult({ win: 2, draw: 1, loss: 0, overtimeLoss: 1 })
+  },
+  // Tennis, basketball: a point per win. Goals are sets or points.
+  WIN_LOSS: {
+    name: 'WIN_LOSS',
+    tieBreakers: DEFAULT_TIE_BREAKERS,
+    score: byResult({ win: 1, draw: 0, loss: 0 })
+  }
+};
+
+// Overtime and shootouts show in the sport state: hockey periods past the
+// third and the shootout tally, basketball quarters past the fourth
+export function decidedIn(game: Game): ResultDecision {
+  const state = game.getSportState()?.toJSON();
+
+  switch (state?.kind) {
+    case 'HOCKEY':
+      if (state.shootout) return 'SHOOTOUT';
+      return state.period > 3 ? 'OVERTIME' : 'REGULATION';
+    case 'BASKETBALL':
+      return state.quarter > 4 ? 'OVERTIME' : 'REGULATION';
+    default:
+      return 'REGULATION';
+  }
+}
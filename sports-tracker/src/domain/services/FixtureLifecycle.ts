@@ -0,0 +1,55 @@
+import { Game } from '../entities/Game';
+import { GameStatusEnum } from '../value-objects/GameStatus';
+
+export interface StoredMatchState {
+  status: string;
+  score1: number;
+  score2: number;
+}
+
+// Feeds reset a finished fixture under the same ID to publish the next match.
+// Returns the reason when the polled game is such a new match rather than
+// an update of the stored one, or null when it is the same match.
+export function detectRestartedFixture(
+  stored: StoredMatchState,
+  polled: Game
+): string | null {
+  const polledStatus = polled.getStatus().getValue();
+  const polledScore = polled.getScore();
+
+  const scoreWentDown =
+    polledScore.getTeam1Score() < stored.score1 ||
+    polledScore.getTeam2Score() < stored.score2;
+
+  if (stored.status === GameStatusEnum.FINISHED) {
+    if (polledStatus === GameStatusEnum.SCHEDULED) {
+      return 'FINISHED_FIXTURE_RESCHEDULED';
+    }
+
+    // Reset and restarted between two polls
+    if (polledStatus === GameStatusEnum.LIVE && scoreWentDown) {
+      return 'FINISHED_FIXTURE_RESTARTED';
+    }
+  }
+
+  // We missed the FINISHED poll and only see the reset fixture
+  if (
+    stored.status === GameStatusEnum.LIVE &&
+    polledStatus === GameStatusEnum.SCHEDULED &&
+    polledScore.getTeam1Score() === 0 &&
+    polledScore.getTeam2Score() === 0 &&
+    polled.getEvents().length === 0
+  ) {
+    return 'LIVE_FIXTURE_RESET';
+  }
+
+  return null;
+}
+
+// Separates a later match instance's number from the provider ID ("H1~2").
+// Provider IDs containing it are rejected, so the two can't collide.
+export const INSTANCE_SEPARATOR = '~';
+
+export function instanceGameId(providerGameId: string, instanceNumber: number): string {
+  return `${providerGameId}${INSTANCE_SEPARATOR}${instanceNumber}`;
+}
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EMPTY_LINE, STANDINGS_RULES } from '../rules/StandingsRules';
+import { HeadToHeadResult, StandingsRow, rankStandings } from './StandingsTable';
+
+const { THREE_ONE_ZERO } = STANDINGS_RULES;
+
+const row = (teamId: string, points: number, goalsFor: number, goalsAgainst: number): StandingsRow =>
+  ({ ...EMPTY_LINE, teamId, points, goalsFor, goalsAgainst });
+
+const game = (team1Id: string, team2Id: string, score1: number, score2: number): HeadToHeadResult =>
+  ({ team1Id, team2Id, lines: THREE_ONE_ZERO.score(score1, score2, 'REGULATION') });
+
+const ranked = (rows: StandingsRow[], results: HeadToHeadResult[] = []) =>
+  rankStandings(rows, results, THREE_ONE_ZERO.tieBreakers).map(standing => standing.teamId);
+
+test('orders teams level on points by goal difference, then goals for', () => {
+  const rows = [
+    row('a', 6, 3, 2),
+    row('b', 6, 5, 4),
+    row('c', 6, 4, 1),
+    row('d', 9, 1, 0)
+  ];
+
+  // c has the best difference; a and b are level on it, b scored more
+  assert.deepEqual(ranked(rows), ['d', 'c', 'b', 'a']);
+});
+
+test('orders the teams still level by head-to-head among them only', () => {
+  // a, m and z are level on points, goal difference and goals for
+  const rows = [...['a', 'm', 'z'].map(teamId => row(teamId, 9, 6, 4)), row('x', 3, 6, 4)];
+  const results = [
+    game('a', 'z', 1, 0),
+    game('z', 'a', 0, 1),
+    game('a', 'm', 0, 1),
+    game('m', 'a', 0, 1),
+    game('z', 'm', 1, 0),
+    game('m', 'z', 1, 1),
+    // x isn't level with them, so this doesn't count
+    game('m', 'x', 5, 0)
+  ];
+
+  // Among a, m and z: a 9 points, m 4, z 4. m and z are then compared on
+  // their two games alone: z 4, m 1.
+  assert.deepEqual(ranked(rows, results), ['a', 'z', 'm', 'x']);
+});
@@ -0,0 +1,66 @@
+import { StandingsLine, TieBreaker } from '../rules/StandingsRules';
+
+export interface StandingsRow extends StandingsLine {
+  teamId: string;
+}
+
+// A counted game, as far as head-to-head needs it
+export interface HeadToHeadResult {
+  team1Id: string;
+  team2Id: string;
+  lines: [StandingsLine, StandingsLine];
+}
+
+// Orders a table by points, then each tie-breaker in turn among the teams
+// still level. Head-to-head compares points won in the games between the
+// level teams only, and is applied again to fewer teams still level on it.
+export function rankStandings(
+  rows: StandingsRow[],
+  results: HeadToHeadResult[],
+  tieBreakers: TieBreaker[]
+): StandingsRow[] {
+  const keys: { [name: string]: (group: StandingsRow[]) => Map<string, number> } = {
+    POINTS: group => new Map(group.map(row => [row.teamId, row.points])),
+    GOAL_DIFFERENCE: group => new Map(group.map(row => [row.teamId, row.goalsFor - row.goalsAgainst])),
+    GOALS_FOR: group => new Map(group.map(row => [row.teamId, row.goalsFor])),
+    HEAD_TO_HEAD: group => {
+      const teams = new Set(group.map(row => row.teamId));
+      const points = new Map(group.map(row => [row.teamId, 0]));
+
+      results
+        .filter(result => teams.has(result.team1Id) && teams.has(result.team2Id))
+        .forEach(result => {
+          points.set(result.team1Id, points.get(result.team1Id)! + result.lines[0].points);
+          points.set(result.team2Id, points.get(result.team2Id)! + result.lines[1].points);
+        });
+
+      return points;
+    }
+  };
+
+  const order = (group: StandingsRow[], breakers: string[]): StandingsRow[] => {
+    if (group.length < 2 || breakers.length === 0) {
+      return [...group].sort((a, b) => a.teamId.localeCompare(b.teamId));
+    }
+
+    const [breaker, ...rest] = breakers;
+    const key = keys[breaker](group);
+    const sorted = [...group].sort((a, b) => key.get(b.teamId)! - key.get(a.teamId)!);
+
+    // Teams level on this key are ordered by the next one
+    const ordered: StandingsRow[] = [];
+    for (let start = 0; start < sorted.length;) {
+      let end = start + 1;
+      while (end < sorted.length && key.get(sorted[end].teamId) === key.get(sorted[start].teamId)) {
+        end++;
+      }
+      const level = sorted.slice(start, end);
+      const again = breaker === 'HEAD_TO_HEAD' && level.length < group.length;
+      ordered.push(...order(level, again ? breakers : rest));
+      start = end;
+    }
+    return ordered;
+  };
+
+  return order(rows, ['POINTS', ...tieBreakers]);
+}
@@ -0,0 +1,212 @@
+import { SportState, SportStateJSON, DerivedSportEvent } from './SportState';
+
+export type BasketballSide = 'TEAM1' | 'TEAM2';
+export type BasketballPhase = 'PRE_GAME' | 'QUARTER' | 'BREAK' | 'HALFTIME' | 'OVERTIME' | 'FINAL';
+
+export const REGULATION_QUARTERS = 4;
+// Team fouls in a quarter after which the opponent shoots free throws
+const BONUS_FOULS = 5;
+const FOUL_OUT = 6;
+
+export interface BasketballTeamStats {
+  twoPointers: number;
+  threePointers: number;
+  freeThrowsMade: number;
+  freeThrowsAttempted: number;
+  // Team fouls in the current quarter (or overtime)
+  periodFouls: number;
+  // Shooting free throws on every foul, the opponent being over the limit
+  inBonus: boolean;
+  // Shirt numbers of players with six personal fouls
+  fouledOut: number[];
+}
+
+export interface BasketballStateJSON extends SportStateJSON {
+  kind: 'BASKETBALL';
+  // 5 and up are overtimes
+  quarter: number;
+  phase: BasketballPhase;
+  clock: string | null;
+  pointsByQuarter: { quarter: number; team1: number; team2: number }[];
+  teams: { team1: BasketballTeamStats; team2: BasketballTeamStats };
+}
+
+export class BasketballState implements SportState {
+  readonly kind = 'BASKETBALL';
+
+  private readonly quarter: number;
+  private readonly phase: BasketballPhase;
+  // Time remaining in the quarter ("MM:SS"), null when the feed has none
+  private readonly clock: string | null;
+  private readonly pointsByQuarter: { quarter: number; team1: number; team2: number }[];
+  private readonly teams: { team1: BasketballTeamStats; team2: BasketballTeamStats };
+
+  constructor(
+    quarter: number,
+    phase: BasketballPhase,
+    clock: string | null,
+    pointsByQuarter: { quarter: number; team1: number; team2: number }[] = [],
+    teams?: { team1: BasketballTeamStats; team2: BasketballTeamStats }
+  ) {
+    if (quarter < 1) {
+      throw new Error('Basketball quarters start at 1');
+    }
+
+    this.quarter = quarter;
+    this.phase = phase;
+    this.clock = clock;
+    this.pointsByQuarter = pointsByQuarter
+      .map(points => ({ ...points }))
+      .sort((a, b) => a.quarter - b.quarter);
+    this.teams = {
+      team1: BasketballState.copyStats(teams?.team1),
+      team2: BasketballState.copyStats(teams?.team2)
+    };
+  }
+
+  static fromJSON(json: BasketballStateJSON): BasketballState {
+    return new BasketballState(json.quarter, json.phase, json.clock, json.pointsByQuarter, json.teams);
+  }
+
+  static emptyStats(): BasketballTeamStats {
+    return {
+      twoPointers: 0,
+      threePointers: 0,
+      freeThrowsMade: 0,
+      freeThrowsAttempted: 0,
+      periodFouls: 0,
+      inBonus: false,
+      fouledOut: []
+    };
+  }
+
+  static isBonus(periodFouls: number): boolean {
+    return periodFouls >= BONUS_FOULS;
+  }
+
+  static isFouledOut(personalFouls: number): boolean {
+    return personalFouls >= FOUL_OUT;
+  }
+
+  private static copyStats(stats?: BasketballTeamStats): BasketballTeamStats {
+    const source = stats || BasketballState.emptyStats();
+    return { ...source, fouledOut: [...source.fouledOut] };
+  }
+
+  getQuarter(): number {
+    return this.quarter;
+  }
+
+  getPhase(): BasketballPhase {
+    return this.phase;
+  }
+
+  getTeamStats(side: BasketballSide): BasketballTeamStats {
+    return BasketballState.copyStats(side === 'TEAM1' ? this.teams.team1 : this.teams.team2);
+  }
+
+  toDisplayString(team1Name: string, team2Name: string): string {
+    const period = this.quarter > REGULATION_QUARTERS
+      ? `OT${this.quarter - REGULATION_QUARTERS > 1 ? this.quarter - REGULATION_QUARTERS : ''}`
+      : `Q${this.quarter}`;
+
+    switch (this.phase) {
+      case 'PRE_GAME':
+        return 'Pre-game';
+      case 'FINAL':
+        return this.quarter > REGULATION_QUARTERS ? `Final/${period}` : 'Final';
+      case 'HALFTIME':
+        return 'Halftime';
+      case 'BREAK':
+        return `End of ${period}`;
+    }
+
+    let display = this.clock ? `${period} ${this.clock}` : period;
+
+    const bonus = [
+      { name: team1Name, inBonus: this.teams.team1.inBonus },
+      { name: team2Name, inBonus: this.teams.team2.inBonus }
+    ].filter(team => team.inBonus);
+
+    bonus.forEach(team => {
+      display += `, ${team.name} in the bonus`;
+    });
+
+    return display;
+  }
+
+  toJSON(): BasketballStateJSON {
+    return {
+      kind: this.kind,
+      quarter: this.quarter,
+      phase: this.phase,
+      clock: this.clock,
+      pointsByQuarter: this.pointsByQuarter.map(points => ({ ...points })),
+      teams: {
+        team1: this.getTeamStats('TEAM1'),
+        team2: this.getTeamStats('TEAM2')
+      }
+    };
+  }
+
+  equals(other?: SportState): boolean {
+    return !!other && JSON.stringify(this.toJSON()) === JSON.stringify(other.toJSON());
+  }
+
+  // Phase changes (QUARTER_STARTED, QUARTER_ENDED, HALFTIME,
+  // OVERTIME_STARTED), BONUS_REACHED and PLAYER_FOULED_OUT
+  deriveEvents(previous?: SportState): DerivedSportEvent[] {
+    const before = previous instanceof BasketballState
+      ? previous
+      : new BasketballState(1, 'PRE_GAME', null);
+
+    const events: DerivedSportEvent[] = [];
+    const basketballState = this.toJSON();
+
+    if (this.phase !== before.phase || this.quarter !== before.quarter) {
+      const phaseEvent: { [phase: string]: string } = {
+        QUARTER: 'QUARTER_STARTED',
+        BREAK: 'QUARTER_ENDED',
+        HALFTIME: 'HALFTIME',
+        OVERTIME: 'OVERTIME_STARTED'
+      };
+
+      if (phaseEvent[this.phase]) {
+        events.push({
+          eventType: phaseEvent[this.phase],
+          period: this.quarter,
+          payload: { phase: this.phase, basketballState }
+        });
+      }
+    }
+
+    (['TEAM1', 'TEAM2'] as BasketballSide[]).forEach(side => {
+      const stats = this.getTeamStats(side);
+      const previousStats = before.getTeamStats(side);
+      const opponent = this.getTeamStats(side === 'TEAM1' ? 'TEAM2' : 'TEAM1');
+
+      // Bonus resets every quarter, so compare within the same one
+      if (stats.inBonus && (!previousStats.inBonus || before.quarter !== this.quarter)) {
+        events.push({
+          eventType: 'BONUS_REACHED',
+          side,
+          period: this.quarter,
+          payload: { opponentFouls: opponent.periodFouls, basketballState }
+        });
+      }
+
+      stats.fouledOut
+        .filter(player => !previousStats.fouledOut.includes(player))
+        .forEach(player => {
+          events.push({
+            eventType: 'PLAYER_FOULED_OUT',
+            side,
+            period: this.quarter,
+            payload: { player, basketballState }
+          });
+        });
+    });
+
+    return events;
+  }
+}
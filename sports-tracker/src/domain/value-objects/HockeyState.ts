@@ -0,0 +1,284 @@
+import { SportState, SportStateJSON, DerivedSportEvent } from './SportState';
+
+export type HockeySide = 'TEAM1' | 'TEAM2';
+export type HockeyPhase = 'PRE_GAME' | 'REGULATION' | 'INTERMISSION' | 'OVERTIME' | 'SHOOTOUT' | 'FINAL';
+
+export const REGULATION_PERIODS = 3;
+export const PERIOD_SECONDS = 20 * 60;
+export const OVERTIME_SECONDS = 5 * 60;
+const SKATERS = 5;
+const MIN_SKATERS = 3;
+
+// Times are game seconds elapsed since the opening faceoff
+export interface HockeyPenalty {
+  side: HockeySide;
+  period: number;
+  startsAt: number;
+  durationSeconds: number;
+  // Earlier than startsAt + durationSeconds when a power-play goal ended it
+  endsAt: number;
+  player?: number;
+}
+
+export interface HockeyPeriodGoals {
+  period: number;
+  team1: number;
+  team2: number;
+}
+
+export interface HockeyPowerPlay {
+  side: HockeySide;
+  remainingSeconds: number;
+  remaining: string;
+}
+
+export interface HockeyStateJSON extends SportStateJSON {
+  kind: 'HOCKEY';
+  period: number;
+  phase: HockeyPhase;
+  clock: string | null;
+  elapsedSeconds: number | null;
+  penalties: HockeyPenalty[];
+  activePenalties: (HockeyPenalty & { remainingSeconds: number })[];
+  strength: { team1: number; team2: number };
+  powerPlay: HockeyPowerPlay | null;
+  goalsByPeriod: HockeyPeriodGoals[];
+  shootout: { team1: number; team2: number } | null;
+}
+
+export function formatClock(seconds: number): string {
+  const safe = Math.max(0, Math.round(seconds));
+  const minutes = Math.floor(safe / 60);
+  return `${minutes}:${String(safe % 60).padStart(2, '0')}`;
+}
+
+export function parseClock(clock?: string | null): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(clock || '');
+  return match ? parseInt(match[1]) * 60 + parseInt(match[2]) : null;
+}
+
+export function periodLength(period: number): number {
+  return period > REGULATION_PERIODS ? OVERTIME_SECONDS : PERIOD_SECONDS;
+}
+
+// Game seconds elapsed at a point given by period and clock (time remaining)
+export function elapsedAt(period: number, clockSeconds: number): number {
+  const regulationPeriods = Math.min(period - 1, REGULATION_PERIODS);
+  const overtimePeriods = Math.max(0, period - 1 - REGULATION_PERIODS);
+  const periodStart = regulationPeriods * PERIOD_SECONDS + overtimePeriods * OVERTIME_SECONDS;
+  return periodStart + (periodLength(period) - clockSeconds);
+}
+
+export class HockeyState implements SportState {
+  readonly kind = 'HOCKEY';
+
+  private readonly period: number;
+  private readonly phase: HockeyPhase;
+  // Time remaining in the period, null when the feed has no clock
+  private readonly clockSeconds: number | null;
+  private readonly penalties: HockeyPenalty[];
+  private readonly goalsByPeriod: HockeyPeriodGoals[];
+  private readonly shootout: { team1: number; team2: number } | null;
+
+  constructor(
+    period: number,
+    phase: HockeyPhase,
+    clockSeconds: number | null,
+    penalties: HockeyPenalty[] = [],
+    goalsByPeriod: HockeyPeriodGoals[] = [],
+    shootout: { team1: number; team2: number } | null = null
+  ) {
+    if (period < 1) {
+      throw new Error('Hockey period starts at 1');
+    }
+
+    this.period = period;
+    this.phase = phase;
+    this.clockSeconds = clockSeconds;
+    this.penalties = penalties.map(penalty => ({ ...penalty }));
+    this.goalsByPeriod = goalsByPeriod
+      .map(goals => ({ ...goals }))
+      .sort((a, b) => a.period - b.period);
+    this.shootout = shootout ? { ...shootout } : null;
+  }
+
+  static fromJSON(json: HockeyStateJSON): HockeyState {
+    return new HockeyState(
+      json.period,
+      json.phase,
+      parseClock(json.clock),
+      json.penalties,
+      json.goalsByPeriod,
+      json.shootout
+    );
+  }
+
+  getPeriod(): number {
+    return this.period;
+  }
+
+  getPhase(): HockeyPhase {
+    return this.phase;
+  }
+
+  getElapsedSeconds(): number | null {
+    if (this.clockSeconds === null) {
+      return null;
+    }
+    return elapsedAt(this.period, this.clockSeconds);
+  }
+
+  // Penalties still being served. Play is stopped during intermissions and
+  // the shootout, so the clock (and the penalty time) is frozen then.
+  getActivePenalties(): (HockeyPenalty & { remainingSeconds: number })[] {
+    const now = this.getElapsedSeconds();
+    if (now === null || this.phase === 'FINAL' || this.phase === 'SHOOTOUT') {
+      return [];
+    }
+
+    return this.penalties
+      .filter(penalty => penalty.startsAt <= now && now < penalty.endsAt)
+      .map(penalty => ({ ...penalty, remainingSeconds: penalty.endsAt - now }));
+  }
+
+  getStrength(): { team1: number; team2: number } {
+    const active = this.getActivePenalties();
+    const inBox = (side: HockeySide) => active.filter(penalty => penalty.side === side).length;
+
+    return {
+      team1: Math.max(MIN_SKATERS, SKATERS - inBox('TEAM1')),
+      team2: Math.max(MIN_SKATERS, SKATERS - inBox('TEAM2'))
+    };
+  }
+
+  // The team with more skaters is on the power play until the first of the
+  // other team's penalties that create the advantage runs out
+  getPowerPlay(): HockeyPowerPlay | null {
+    const strength = this.getStrength();
+    if (strength.team1 === strength.team2) {
+      return null;
+    }
+
+    const side: HockeySide = strength.team1 > strength.team2 ? 'TEAM1' : 'TEAM2';
+    const shorthanded: HockeySide = side === 'TEAM1' ? 'TEAM2' : 'TEAM1';
+
+    const remainingSeconds = Math.min(
+      ...this.getActivePenalties()
+        .filter(penalty => penalty.side === shorthanded)
+        .map(penalty => penalty.remainingSeconds)
+    );
+
+    return {
+      side,
+      remainingSeconds,
+      remaining: formatClock(remainingSeconds)
+    };
+  }
+
+  toDisplayString(team1Name: string, team2Name: string): string {
+    let display: string;
+
+    switch (this.phase) {
+      case 'PRE_GAME':
+        return 'Pre-game';
+      case 'FINAL':
+        return this.shootout ? 'Final (SO)' : this.period > REGULATION_PERIODS ? 'Final (OT)' : 'Final';
+      case 'SHOOTOUT':
+        return `Shootout ${this.shootout?.team1 ?? 0}-${this.shootout?.team2 ?? 0}`;
+      case 'INTERMISSION':
+        return `Intermission after period ${this.period}`;
+      case 'OVERTIME':
+        display = 'OT';
+        break;
+      default:
+        display = `Period ${this.period}`;
+    }
+
+    if (this.clockSeconds !== null) {
+      display += ` ${formatClock(this.clockSeconds)}`;
+    }
+
+    const powerPlay = this.getPowerPlay();
+    if (powerPlay) {
+      const team = powerPlay.side === 'TEAM1' ? team1Name : team2Name;
+      display += ` | PP ${powerPlay.remaining} ${team}`;
+    }
+
+    return display;
+  }
+
+  toJSON(): HockeyStateJSON {
+    return {
+      kind: this.kind,
+      period: this.period,
+      phase: this.phase,
+      clock: this.clockSeconds === null ? null : formatClock(this.clockSeconds),
+      elapsedSeconds: this.getElapsedSeconds(),
+      penalties: this.penalties.map(penalty => ({ ...penalty })),
+      activePenalties: this.getActivePenalties(),
+      strength: this.getStrength(),
+      powerPlay: this.getPowerPlay(),
+      goalsByPeriod: this.goalsByPeriod.map(goals => ({ ...goals })),
+      shootout: this.shootout ? { ...this.shootout } : null
+    };
+  }
+
+  equals(other?: SportState): boolean {
+    return !!other && JSON.stringify(this.toJSON()) === JSON.stringify(other.toJSON());
+  }
+
+  // Phase changes (PERIOD_STARTED, INTERMISSION_STARTED, OVERTIME_STARTED,
+  // SHOOTOUT_STARTED) and POWER_PLAY_STARTED / POWER_PLAY_ENDED
+  deriveEvents(previous?: SportState): DerivedSportEvent[] {
+    const before = previous instanceof HockeyState
+      ? previous
+      : new HockeyState(1, 'PRE_GAME', null);
+
+    const events: DerivedSportEvent[] = [];
+    const hockeyState = this.toJSON();
+
+    if (this.phase !== before.phase || this.period !== before.period) {
+      const phaseEvent: { [phase: string]: string } = {
+        REGULATION: 'PERIOD_STARTED',
+        INTERMISSION: 'INTERMISSION_STARTED',
+        OVERTIME: 'OVERTIME_STARTED',
+        SHOOTOUT: 'SHOOTOUT_STARTED'
+      };
+
+      if (phaseEvent[this.phase]) {
+        events.push({
+          eventType: phaseEvent[this.phase],
+          period: this.period,
+          payload: { phase: this.phase, hockeyState }
+        });
+      }
+    }
+
+    const previousPowerPlay = before.getPowerPlay();
+    const powerPlay = this.getPowerPlay();
+
+    if (previousPowerPlay && previousPowerPlay.side !== powerPlay?.side) {
+      events.push({
+        eventType: 'POWER_PLAY_ENDED',
+        side: previousPowerPlay.side,
+        period: this.period,
+        payload: { hockeyState }
+      });
+    }
+
+    if (powerPlay && powerPlay.side !== previousPowerPlay?.side) {
+      events.push({
+        eventType: 'POWER_PLAY_STARTED',
+        side: powerPlay.side,
+        period: this.period,
+        payload: {
+          remainingSeconds: powerPlay.remainingSeconds,
+          strength: this.getStrength(),
+          hockeyState
+        }
+      });
+    }
+
+    return events;
+  }
+}
@@ -0,0 +1,244 @@
+import { SportState, SportStateJSON, DerivedSportEvent } from './SportState';
+
+export type SoccerSide = 'TEAM1' | 'TEAM2';
+export type SoccerPhase =
+  | 'PRE_MATCH'
+  | 'FIRST_HALF'
+  | 'HALF_TIME'
+  | 'SECOND_HALF'
+  | 'EXTRA_TIME'
+  | 'PENALTIES'
+  | 'FULL_TIME';
+export type SoccerCardType = 'YELLOW' | 'SECOND_YELLOW' | 'RED';
+
+const STARTING_PLAYERS = 11;
+
+export interface SoccerCard {
+  side: SoccerSide;
+  card: SoccerCardType;
+  minute: number;
+  // Shirt number; second yellows can only be spotted when the feed sends it
+  player?: number;
+}
+
+export interface SoccerSubstitution {
+  side: SoccerSide;
+  minute: number;
+  playerOut?: number;
+  playerIn?: number;
+}
+
+export interface SoccerTeamState {
+  yellowCards: number;
+  redCards: number;
+  sentOff: number;
+  playersOnPitch: number;
+  substitutionsUsed: number;
+}
+
+export interface SoccerStateJSON extends SportStateJSON {
+  kind: 'SOCCER';
+  phase: SoccerPhase;
+  minute: number;
+  addedTime: number;
+  cards: SoccerCard[];
+  substitutions: SoccerSubstitution[];
+  teams: { team1: SoccerTeamState; team2: SoccerTeamState };
+  penalties: { team1: number; team2: number } | null;
+}
+
+export class SoccerState implements SportState {
+  readonly kind = 'SOCCER';
+
+  private readonly phase: SoccerPhase;
+  private readonly minute: number;
+  // Stoppage minutes played so far at the end of a half
+  private readonly addedTime: number;
+  private readonly cards: SoccerCard[];
+  private readonly substitutions: SoccerSubstitution[];
+  private readonly penalties: { team1: number; team2: number } | null;
+
+  constructor(
+    phase: SoccerPhase,
+    minute: number,
+    addedTime: number = 0,
+    cards: SoccerCard[] = [],
+    substitutions: SoccerSubstitution[] = [],
+    penalties: { team1: number; team2: number } | null = null
+  ) {
+    if (minute < 0 || addedTime < 0) {
+      throw new Error('Match minute cannot be negative');
+    }
+
+    this.phase = phase;
+    this.minute = minute;
+    this.addedTime = addedTime;
+    this.cards = cards.map(card => ({ ...card }));
+    this.substitutions = substitutions.map(substitution => ({ ...substitution }));
+    this.penalties = penalties ? { ...penalties } : null;
+  }
+
+  static fromJSON(json: SoccerStateJSON): SoccerState {
+    return new SoccerState(
+      json.phase,
+      json.minute,
+      json.addedTime,
+      json.cards,
+      json.substitutions,
+      json.penalties
+    );
+  }
+
+  // Card to record for a booking, given the cards already shown:
+  // a second yellow for the same player is a sending-off
+  static classifyCard(
+    cards: SoccerCard[],
+    side: SoccerSide,
+    card: 'YELLOW' | 'RED',
+    player?: number
+  ): SoccerCardType {
+    if (card === 'RED' || player === undefined) {
+      return card;
+    }
+
+    const booked = cards.some(previous =>
+      previous.side === side && previous.player === player && previous.card === 'YELLOW'
+    );
+    return booked ? 'SECOND_YELLOW' : 'YELLOW';
+  }
+
+  getPhase(): SoccerPhase {
+    return this.phase;
+  }
+
+  getMinute(): number {
+    return this.minute;
+  }
+
+  getAddedTime(): number {
+    return this.addedTime;
+  }
+
+  getTeamState(side: SoccerSide): SoccerTeamState {
+    const cards = this.cards.filter(card => card.side === side);
+    const sentOff = cards.filter(card => card.card !== 'YELLOW').length;
+
+    return {
+      // A second yellow still counts as a yellow card shown
+      yellowCards: cards.filter(card => card.card !== 'RED').length,
+      redCards: sentOff,
+      sentOff,
+      playersOnPitch: STARTING_PLAYERS - sentOff,
+      substitutionsUsed: this.substitutions.filter(substitution => substitution.side === side).length
+    };
+  }
+
+  getSentOff(): SoccerCard[] {
+    return this.cards.filter(card => card.card !== 'YELLOW').map(card => ({ ...card }));
+  }
+
+  toDisplayString(team1Name: string, team2Name: string): string {
+    const minute = this.addedTime > 0 ? `${this.minute}+${this.addedTime}'` : `${this.minute}'`;
+    let display: string;
+
+    switch (this.phase) {
+      case 'PRE_MATCH':
+        return 'Pre-match';
+      case 'HALF_TIME':
+        return 'Half-time';
+      case 'FULL_TIME':
+        display = this.penalties
+          ? `Full time (pens ${this.penalties.team1}-${this.penalties.team2})`
+          : this.minute > 90 ? 'Full time (AET)' : 'Full time';
+        break;
+      case 'PENALTIES':
+        display = `Penalties ${this.penalties?.team1 ?? 0}-${this.penalties?.team2 ?? 0}`;
+        break;
+      case 'FIRST_HALF':
+        display = `1st half ${minute}`;
+        break;
+      case 'SECOND_HALF':
+        display = `2nd half ${minute}`;
+        break;
+      default:
+        display = `Extra time ${minute}`;
+    }
+
+    const shorthanded = [
+      { name: team1Name, players: this.getTeamState('TEAM1').playersOnPitch },
+      { name: team2Name, players: this.getTeamState('TEAM2').playersOnPitch }
+    ].filter(team => team.players < STARTING_PLAYERS);
+
+    shorthanded.forEach(team => {
+      display += `, ${team.name} ${team.players} men`;
+    });
+
+    return display;
+  }
+
+  toJSON(): SoccerStateJSON {
+    return {
+      kind: this.kind,
+      phase: this.phase,
+      minute: this.minute,
+      addedTime: this.addedTime,
+      cards: this.cards.map(card => ({ ...card })),
+      substitutions: this.substitutions.map(substitution => ({ ...substitution })),
+      teams: {
+        team1: this.getTeamState('TEAM1'),
+        team2: this.getTeamState('TEAM2')
+      },
+      penalties: this.penalties ? { ...this.penalties } : null
+    };
+  }
+
+  equals(other?: SportState): boolean {
+    return !!other && JSON.stringify(this.toJSON()) === JSON.stringify(other.toJSON());
+  }
+
+  // Phase changes (FIRST_HALF_STARTED, HALF_TIME, SECOND_HALF_STARTED,
+  // EXTRA_TIME_STARTED, PENALTIES_STARTED, FULL_TIME) and PLAYER_SENT_OFF
+  deriveEvents(previous?: SportState): DerivedSportEvent[] {
+    const before = previous instanceof SoccerState
+      ? previous
+      : new SoccerState('PRE_MATCH', 0);
+
+    const events: DerivedSportEvent[] = [];
+    const soccerState = this.toJSON();
+
+    if (this.phase !== before.phase) {
+      const phaseEvent: { [phase: string]: string } = {
+        FIRST_HALF: 'FIRST_HALF_STARTED',
+        HALF_TIME: 'HALF_TIME',
+        SECOND_HALF: 'SECOND_HALF_STARTED',
+        EXTRA_TIME: 'EXTRA_TIME_STARTED',
+        PENALTIES: 'PENALTIES_STARTED',
+        FULL_TIME: 'FULL_TIME'
+      };
+
+      if (phaseEvent[this.phase]) {
+        events.push({
+          eventType: phaseEvent[this.phase],
+          payload: { phase: this.phase, minute: this.minute, soccerState }
+        });
+      }
+    }
+
+    // Cards are only ever appended, so the new sending-offs are the tail
+    this.getSentOff().slice(before.getSentOff().length).forEach(card => {
+      events.push({
+        eventType: 'PLAYER_SENT_OFF',
+        side: card.side,
+        payload: {
+          player: card.player,
+          minute: card.minute,
+          reason: card.card,
+          playersOnPitch: this.getTeamState(card.side).playersOnPitch,
+          soccerState
+        }
+      });
+    });
+
+    return events;
+  }
+}
@@ -0,0 +1,23 @@
+// An event derived from a change in sport-specific state,
+// e.g. a tennis break of serve or a hockey power play starting
+export interface DerivedSportEvent {
+  eventType: string;
+  side?: 'TEAM1' | 'TEAM2';
+  period?: number;
+  payload: { [key: string]: any };
+}
+
+export interface SportStateJSON {
+  kind: string;
+  [key: string]: any;
+}
+
+// Sport-specific game state kept next to the unified Score
+// (tennis sets/games/points, hockey periods and penalties, ...)
+export interface SportState {
+  readonly kind: string;
+  toJSON(): SportStateJSON;
+  equals(other?: SportState): boolean;
+  // Events implied by going from the previous state to this one
+  deriveEvents(previous?: SportState): DerivedSportEvent[];
+}
@@ -0,0 +1,26 @@
+import { SportState, SportStateJSON } from './SportState';
+import { TennisScore, TennisScoreJSON } from './TennisScore';
+import { HockeyState, HockeyStateJSON } from './HockeyState';
+import { SoccerState, SoccerStateJSON } from './SoccerState';
+import { BasketballState, BasketballStateJSON } from './BasketballState';
+
+// Rehydrates a stored sport state (snapshot or event payload)
+export function sportStateFromJSON(json?: SportStateJSON | null): SportState | undefined {
+  if (!json) {
+    return undefined;
+  }
+
+  switch (json.kind) {
+    case 'TENNIS':
+      return TennisScore.fromJSON(json as TennisScoreJSON);
+    case 'SOCCER':
+      return SoccerState.fromJSON(json as SoccerStateJSON);
+    case 'HOCKEY':
+      return HockeyState.fromJSON(json as HockeyStateJSON);
+    case 'BASKETBALL':
+      return BasketballState.fromJSON(json as BasketballStateJSON);
+    default:
+      console.warn(`Unknown sport state kind: ${json.kind}`);
+      return undefined;
+  }
+}
@@ -0,0 +1,234 @@
+import { SportState, SportStateJSON, DerivedSportEvent } from './SportState';
+
+export type TennisPoint = '0' | '15' | '30' | '40' | 'AD';
+export type TennisPlayer = 1 | 2;
+export type TennisFormat = 3 | 5;
+
+export interface TennisSet {
+  p1: number;
+  p2: number;
+  // Tiebreak points, once the set went to a tiebreak
+  tiebreak?: { p1: number; p2: number };
+}
+
+export interface TennisScoreJSON extends SportStateJSON {
+  kind: 'TENNIS';
+  bestOf: TennisFormat;
+  sets: TennisSet[];
+  points: { p1: TennisPoint; p2: TennisPoint } | null;
+  inTiebreak: boolean;
+  server: TennisPlayer | null;
+  setsWon: { p1: number; p2: number };
+}
+
+const POINTS: TennisPoint[] = ['0', '15', '30', '40', 'AD'];
+
+export class TennisScore implements SportState {
+  readonly kind = 'TENNIS';
+
+  private readonly bestOf: TennisFormat;
+  private readonly sets: TennisSet[];
+  private readonly points: { p1: TennisPoint; p2: TennisPoint } | null;
+  private readonly server: TennisPlayer | null;
+
+  constructor(
+    bestOf: TennisFormat,
+    sets: TennisSet[],
+    points: { p1: TennisPoint; p2: TennisPoint } | null,
+    server: TennisPlayer | null
+  ) {
+    if (bestOf !== 3 && bestOf !== 5) {
+      throw new Error('Tennis matches are best of 3 or 5 sets');
+    }
+    if (sets.some(set => set.p1 < 0 || set.p2 < 0)) {
+      throw new Error('Games cannot be negative');
+    }
+    if (points && (!POINTS.includes(points.p1) || !POINTS.includes(points.p2))) {
+      throw new Error(`Invalid game points ${points.p1}-${points.p2}`);
+    }
+
+    this.bestOf = bestOf;
+    this.sets = sets.map(set => ({
+      p1: set.p1,
+      p2: set.p2,
+      ...(set.tiebreak && { tiebreak: { ...set.tiebreak } })
+    }));
+    this.points = points ? { ...points } : null;
+    this.server = server;
+  }
+
+  static fromJSON(json: TennisScoreJSON): TennisScore {
+    return new TennisScore(json.bestOf, json.sets, json.points, json.server);
+  }
+
+  static isPoint(value: unknown): value is TennisPoint {
+    return POINTS.includes(value as TennisPoint);
+  }
+
+  static isSetComplete(set: TennisSet): boolean {
+    const { p1, p2 } = set;
+
+    if (p1 >= 6 && p1 - p2 >= 2) return true;
+    if (p2 >= 6 && p2 - p1 >= 2) return true;
+
+    // Won in a tiebreak
+    if (p1 === 7 && p2 === 6) return true;
+    if (p2 === 7 && p1 === 6) return true;
+
+    return false;
+  }
+
+  getBestOf(): TennisFormat {
+    return this.bestOf;
+  }
+
+  getSets(): TennisSet[] {
+    return this.sets.map(set => ({ ...set }));
+  }
+
+  getPoints(): { p1: TennisPoint; p2: TennisPoint } | null {
+    return this.points ? { ...this.points } : null;
+  }
+
+  getServer(): TennisPlayer | null {
+    return this.server;
+  }
+
+  getSetsWon(): { p1: number; p2: number } {
+    let p1 = 0;
+    let p2 = 0;
+
+    this.sets.forEach(set => {
+      if (TennisScore.isSetComplete(set)) {
+        if (set.p1 > set.p2) p1++;
+        else p2++;
+      }
+    });
+
+    return { p1, p2 };
+  }
+
+  getCurrentSet(): TennisSet | null {
+    const last = this.sets[this.sets.length - 1];
+    return last && !TennisScore.isSetComplete(last) ? { ...last } : null;
+  }
+
+  isInTiebreak(): boolean {
+    const current = this.getCurrentSet();
+    return !!current && current.p1 === 6 && current.p2 === 6;
+  }
+
+  isMatchComplete(): boolean {
+    const setsToWin = Math.ceil(this.bestOf / 2);
+    const setsWon = this.getSetsWon();
+    return setsWon.p1 >= setsToWin || setsWon.p2 >= setsToWin;
+  }
+
+  toDisplayString(): string {
+    const played = this.sets.filter(set => set.p1 > 0 || set.p2 > 0);
+    if (played.length === 0) {
+      return 'Starting';
+    }
+
+    const setsWon = this.getSetsWon();
+    const current = this.getCurrentSet();
+
+    if (!current) {
+      return `Sets: ${setsWon.p1}-${setsWon.p2}`;
+    }
+
+    const setNumber = this.sets.length;
+    let display = `Set ${setNumber}: ${current.p1}-${current.p2}`;
+
+    if (this.isInTiebreak() && current.tiebreak) {
+      display += ` (TB ${current.tiebreak.p1}-${current.tiebreak.p2})`;
+    } else if (this.points) {
+      display += ` (${this.points.p1}-${this.points.p2})`;
+    }
+
+    return setNumber > 1 ? `Sets: ${setsWon.p1}-${setsWon.p2}, ${display}` : display;
+  }
+
+  toJSON(): TennisScoreJSON {
+    return {
+      kind: this.kind,
+      bestOf: this.bestOf,
+      sets: this.getSets(),
+      points: this.getPoints(),
+      inTiebreak: this.isInTiebreak(),
+      server: this.server,
+      setsWon: this.getSetsWon()
+    };
+  }
+
+  equals(other?: SportState): boolean {
+    return !!other && JSON.stringify(this.toJSON()) === JSON.stringify(other.toJSON());
+  }
+
+  // GAME_WON / BREAK_OF_SERVE / TIEBREAK_STARTED / SET_WON / MATCH_WON from
+  // the difference in games. When several games passed between two polls,
+  // the serve is assumed to have alternated.
+  deriveEvents(previous?: SportState): DerivedSportEvent[] {
+    const before = previous instanceof TennisScore
+      ? previous
+      : new TennisScore(this.bestOf, [], null, null);
+
+    const events: DerivedSportEvent[] = [];
+    const score = this.toJSON();
+    let server = before.server;
+
+    this.sets.forEach((set, index) => {
+      const previousSet = before.sets[index] || { p1: 0, p2: 0 };
+      const setNumber = index + 1;
+
+      const gamesWon: TennisPlayer[] = [
+        ...Array(Math.max(0, set.p1 - previousSet.p1)).fill(1),
+        ...Array(Math.max(0, set.p2 - previousSet.p2)).fill(2)
+      ];
+
+      // A tiebreak is served by both players, so winning it is no break
+      const wasTiebreak = previousSet.p1 === 6 && previousSet.p2 === 6;
+
+      gamesWon.forEach(player => {
+        events.push(this.playerEvent('GAME_WON', player, setNumber, score));
+
+        if (server && server !== player && !wasTiebreak) {
+          events.push(this.playerEvent('BREAK_OF_SERVE', player, setNumber, score));
+        }
+
+        server = server === 1 ? 2 : server === 2 ? 1 : null;
+      });
+
+      if (set.p1 === 6 && set.p2 === 6 && !wasTiebreak) {
+        events.push({
+          eventType: 'TIEBREAK_STARTED',
+          payload: { set: setNumber, tennisScore: score }
+        });
+      }
+
+      if (TennisScore.isSetComplete(set) && !TennisScore.isSetComplete(previousSet)) {
+        events.push(this.playerEvent('SET_WON', set.p1 > set.p2 ? 1 : 2, setNumber, score));
+      }
+    });
+
+    if (this.isMatchComplete() && !before.isMatchComplete()) {
+      const setsWon = this.getSetsWon();
+      events.push(this.playerEvent('MATCH_WON', setsWon.p1 > setsWon.p2 ? 1 : 2, this.sets.length, score));
+    }
+
+    return events;
+  }
+
+  private playerEvent(
+    eventType: string,
+    player: TennisPlayer,
+    set: number,
+    tennisScore: TennisScoreJSON
+  ): DerivedSportEvent {
+    return {
+      eventType,
+      side: player === 1 ? 'TEAM1' : 'TEAM2',
+      payload: { player, set, tennisScore }
+    };
+  }
+}
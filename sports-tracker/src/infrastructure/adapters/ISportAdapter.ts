@@ -1,6 +1,45 @@
 import { Game } from '../../domain/entities/Game';
+import { ResilientHttpClient } from '../http/ResilientHttpClient';
+import { FetchResult } from '../http/FetchResult';
+import { CircuitState } from '../http/CircuitBreaker';
+
+// Turns a team name, as a source spells it, into a team registry ID
+export interface ITeamResolver {
+  // Undefined when the registry can't answer; the game stays unlinked
+  resolve(sport: string, source: string, name: string): Promise<string | undefined>;
+}
+
+// What an adapter gets from the sport registry (src/config/sports.ts)
+export interface SportAdapterConfig {
+  sport: string;
+  apiUrl: string;
+  http: ResilientHttpClient;
+  // Without one, games carry team names only
+  teams?: ITeamResolver;
+}
+
+// An upstream record that failed validation or mapping, kept as received
+export interface RejectedRecord {
+  // Position in the provider's list
+  index: number;
+  providerGameId?: string;
+  reason: string;
+  record: any;
+}
+
+// One bad record doesn't sink the batch: it is rejected, the rest mapped
+export interface MappedGames {
+  games: Game[];
+  rejected: RejectedRecord[];
+}
 
 export interface ISportAdapter {
-  fetchGames(): Promise<Game[]>;
+  // A failed fetch is { ok: false }, never an empty list
+  fetchGames(): Promise<FetchResult<MappedGames>>;
+  // A pushed payload (POST /api/ingest/:sport)
+  mapPayload(payload: any): Promise<MappedGames>;
   getSportType(): string;
-}
\ No newline at end of file
+  getCircuitState(): CircuitState;
+  // Play event types the provider is known to send
+  getKnownEventTypes(): string[];
+}
@@ -0,0 +1,142 @@
+import fs from 'fs';
+import path from 'path';
+import { GameStatusEnum } from '../../../domain/value-objects/GameStatus';
+import { SPORT_STATE_BUILDERS } from '../state/SportStateBuilders';
+
+export const FEED_SPEC_DIR = path.resolve(__dirname, '../../../../config/feeds');
+
+// Paths are dot-separated ("score.home", "teams.0"). Templates put paths in
+// braces ("{minute} min").
+export interface FeedEventSpec {
+  path: string;
+  // Unique per event within a game; the event ID is "<gameId>-<value>"
+  id: string;
+  type: string;
+  // Provider event type → recorded event type; unmapped types are kept as is
+  typeMap?: { [providerType: string]: string };
+  // Recorded types the provider is known to send. Metrics label any other
+  // type OTHER, so a provider can't grow their series without bound.
+  types?: string[];
+  timestamp: string;
+  team?: string;
+  // Where the side comes from, and its values for TEAM1/TEAM2
+  side?: string;
+  sideMap?: { [value: string]: 'TEAM1' | 'TEAM2' };
+  player?: string;
+  points?: string;
+  minute?: string;
+  period?: string;
+}
+
+export interface FeedSpec {
+  endpoint: string;
+  // Where the list of games is in the response
+  listPath: string;
+  fields: {
+    id: string;
+    team1: string;
+    team2: string;
+    // Not needed when the sport state gives the score (tennis: sets won)
+    score1?: string;
+    score2?: string;
+    status: string;
+    // Template, used when there is no sport state
+    currentTime?: string;
+    // League or tournament name, for standings
+    competition?: string;
+  };
+  // Provider status → SCHEDULED / LIVE / FINISHED
+  statusMap: { [providerStatus: string]: GameStatusEnum };
+  events?: FeedEventSpec;
+  // Name of a builder in SPORT_STATE_BUILDERS
+  sportState?: string;
+}
+
+export class FeedSpecError extends Error {
+  constructor(source: string, problems: string[]) {
+    super(`Invalid feed spec ${source}: ${problems.join('; ')}`);
+    this.name = 'FeedSpecError';
+  }
+}
+
+export function validateFeedSpec(spec: any, source: string): FeedSpec {
+  const problems: string[] = [];
+  const isText = (value: unknown) => typeof value === 'string' && value.length > 0;
+
+  if (!spec || typeof spec !== 'object') {
+    throw new FeedSpecError(source, ['not an object']);
+  }
+
+  if (!isText(spec.endpoint)) problems.push('endpoint is required');
+  if (typeof spec.listPath !== 'string') problems.push('listPath is required');
+
+  ['id', 'team1', 'team2', 'status'].forEach(field => {
+    if (!isText(spec.fields?.[field])) problems.push(`fields.${field} is required`);
+  });
+  if (spec.fields?.competition !== undefined && !isText(spec.fields.competition)) {
+    problems.push('fields.competition must be a path');
+  }
+  if (!spec.sportState && !(isText(spec.fields?.score1) && isText(spec.fields?.score2))) {
+    problems.push('fields.score1 and fields.score2 are required without a sportState');
+  }
+
+  const statuses = Object.entries(spec.statusMap || {});
+  if (statuses.length === 0) problems.push('statusMap is required');
+  statuses.forEach(([providerStatus, status]) => {
+    if (!Object.values(GameStatusEnum).includes(status as GameStatusEnum)) {
+      problems.push(`statusMap.${providerStatus} must be SCHEDULED, LIVE or FINISHED`);
+    }
+  });
+
+  if (spec.events) {
+    ['path', 'id', 'type', 'timestamp'].forEach(field => {
+      if (!isText(spec.events[field])) problems.push(`events.${field} is required`);
+    });
+    if (spec.events.types !== undefined && !(Array.isArray(spec.events.types) && spec.events.types.every(isText))) {
+      problems.push('events.types must be a list of event types');
+    }
+  }
+
+  if (spec.sportState !== undefined && !SPORT_STATE_BUILDERS[spec.sportState]) {
+    problems.push(
+      `sportState must be one of: ${Object.keys(SPORT_STATE_BUILDERS).join(', ')}`
+    );
+  }
+
+  if (problems.length > 0) {
+    throw new FeedSpecError(source, problems);
+  }
+
+  return spec as FeedSpec;
+}
+
+// Reads a spec from config/feeds, e.g. loadFeedSpec('soccer.json')
+export function loadFeedSpec(file: string, directory: string = FEED_SPEC_DIR): FeedSpec {
+  const specPath = path.resolve(directory, file);
+  let spec: unknown;
+
+  try {
+    spec = JSON.parse(fs.readFileSync(specPath, 'utf8'));
+  } catch (error) {
+    throw new FeedSpecError(file, [(error as Error).message]);
+  }
+
+  return validateFeedSpec(spec, file);
+}
+
+export function getPath(source: any, fieldPath: string): any {
+  if (fieldPath === '') {
+    return source;
+  }
+
+  return fieldPath
+    .split('.')
+    .reduce((value, key) => (value === null || value === undefined ? undefined : value[key]), source);
+}
+
+export function renderTemplate(template: string, source: any): string {
+  return template.replace(/\{([^}]+)\}/g, (_, fieldPath) => {
+    const value = getPath(source, fieldPath.trim());
+    return value === null || value === undefined ? '' : String(value);
+  });
+}
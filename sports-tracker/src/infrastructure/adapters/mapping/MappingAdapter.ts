@@ -0,0 +1,199 @@
+import { Game, GameEvent } from '../../../domain/entities/Game';
+import { Score } from '../../../domain/value-objects/Score';
+import { GameStatus } from '../../../domain/value-objects/GameStatus';
+import { ISportAdapter, SportAdapterConfig, MappedGames, ITeamResolver } from '../ISportAdapter';
+import { ResilientHttpClient } from '../../http/ResilientHttpClient';
+import { FetchResult, fetchFailure } from '../../http/FetchResult';
+import { CircuitState } from '../../http/CircuitBreaker';
+import { SPORT_STATE_BUILDERS } from '../state/SportStateBuilders';
+import { FeedSpec, getPath, renderTemplate } from './FeedSpec';
+import { validateRecord } from './RecordValidator';
+
+// Generic adapter: where things are in the provider's JSON comes from a
+// feed spec (config/feeds/*.json) instead of code
+export class MappingAdapter implements ISportAdapter {
+  private readonly apiUrl: string;
+  private readonly sport: string;
+  private readonly spec: FeedSpec;
+  private readonly http: ResilientHttpClient;
+  private readonly teams?: ITeamResolver;
+  // Whose spelling of team names this is, for the team registry's aliases
+  private readonly source: string;
+
+  constructor(spec: FeedSpec, config: SportAdapterConfig) {
+    this.spec = spec;
+    this.apiUrl = config.apiUrl;
+    this.sport = config.sport;
+    this.http = config.http;
+    this.teams = config.teams;
+    this.source = `${config.sport.toLowerCase()}-api`;
+  }
+
+  async fetchGames(): Promise<FetchResult<MappedGames>> {
+    const result = await this.http.getJson(`${this.apiUrl}${this.spec.endpoint}`);
+
+    if (!result.ok) {
+      return result;
+    }
+
+    try {
+      return { ...result, data: await this.mapResponse(result.data) };
+    } catch (error) {
+      console.error(`Error mapping ${this.sport.toLowerCase()} games:`, error);
+      return fetchFailure(
+        { kind: 'INVALID_RESPONSE', message: (error as Error).message },
+        result.latencyMs,
+        result.attempts
+      );
+    }
+  }
+
+  getSportType(): string {
+    return this.sport;
+  }
+
+  getCircuitState(): CircuitState {
+    return this.http.getCircuitState();
+  }
+
+  getKnownEventTypes(): string[] {
+    return [...(this.spec.events?.types ?? [])];
+  }
+
+  // Throws only when the list itself is missing
+  async mapResponse(data: any): Promise<MappedGames> {
+    const records = getPath(data, this.spec.listPath);
+
+    if (!Array.isArray(records)) {
+      throw new Error(`${this.sport}: expected a list at "${this.spec.listPath}"`);
+    }
+
+    return await this.mapRecords(records);
+  }
+
+  // Providers push one record, a list of them, or the same document the
+  // list endpoint returns
+  async mapPayload(payload: any): Promise<MappedGames> {
+    const listed = this.spec.listPath === '' ? undefined : getPath(payload, this.spec.listPath);
+    const records = Array.isArray(payload) ? payload : Array.isArray(listed) ? listed : [payload];
+
+    return await this.mapRecords(records);
+  }
+
+  private async mapRecords(records: any[]): Promise<MappedGames> {
+    const mapped: MappedGames = { games: [], rejected: [] };
+
+    for (const [index, record] of records.entries()) {
+      const id = record && typeof record === 'object' ? getPath(record, this.spec.fields.id) : undefined;
+      const reject = (reason: string) => {
+        console.warn(`${this.sport}: Rejected record ${index}${id !== undefined ? ` (${id})` : ''}: ${reason}`);
+        mapped.rejected.push({
+          index,
+          providerGameId: id === undefined || id === null ? undefined : String(id),
+          reason,
+          record
+        });
+      };
+
+      const problems = validateRecord(this.spec, record);
+      if (problems.length > 0) {
+        reject(problems.join('; '));
+        continue;
+      }
+
+      // Sport state builders and value objects have rules of their own
+      let game: Game;
+      try {
+        game = this.convertToGame(record);
+      } catch (error) {
+        reject((error as Error).message);
+        continue;
+      }
+
+      await this.resolveTeams(game);
+      mapped.games.push(game);
+    }
+
+    return mapped;
+  }
+
+  private async resolveTeams(game: Game): Promise<void> {
+    if (!this.teams) {
+      return;
+    }
+
+    const [team1Id, team2Id] = await Promise.all([
+      this.teams.resolve(this.sport, this.source, game.getTeam1Name()),
+      this.teams.resolve(this.sport, this.source, game.getTeam2Name())
+    ]);
+    game.assignTeams(team1Id, team2Id);
+  }
+
+  private convertToGame(record: any): Game {
+    const { fields } = this.spec;
+    const gameId = String(getPath(record, fields.id));
+    const team1 = String(getPath(record, fields.team1));
+    const team2 = String(getPath(record, fields.team2));
+
+    const status = this.mapStatus(getPath(record, fields.status));
+
+    const builder = this.spec.sportState ? SPORT_STATE_BUILDERS[this.spec.sportState] : undefined;
+    const sportState = builder ? builder(record, { status, team1, team2 }) : undefined;
+
+    const scoreAt = (fieldPath?: string) => (fieldPath ? Number(getPath(record, fieldPath)) || 0 : 0);
+    const score = sportState?.score || Score.create(scoreAt(fields.score1), scoreAt(fields.score2));
+
+    const currentTime = sportState?.currentTime
+      ?? (fields.currentTime ? renderTemplate(fields.currentTime, record) : '');
+
+    const competition = fields.competition ? getPath(record, fields.competition) : undefined;
+
+    const events = this.spec.events
+      ? (getPath(record, this.spec.events.path) || []).map((event: any) => this.convertEvent(event, gameId))
+      : [];
+
+    return new Game(
+      gameId,
+      this.sport,
+      [
+        { name: team1, side: 'TEAM1' },
+        { name: team2, side: 'TEAM2' }
+      ],
+      score,
+      status,
+      currentTime,
+      events,
+      undefined,
+      undefined,
+      sportState?.state,
+      competition === undefined || competition === null || competition === '' ? undefined : String(competition)
+    );
+  }
+
+  // validateRecord rejects statuses missing from the statusMap
+  private mapStatus(providerStatus: string): GameStatus {
+    return new GameStatus(this.spec.statusMap[String(providerStatus)]);
+  }
+
+  private convertEvent(event: any, gameId: string): GameEvent {
+    const spec = this.spec.events!;
+    const providerType = getPath(event, spec.type);
+    const optional = (fieldPath?: string) => (fieldPath ? getPath(event, fieldPath) : undefined);
+    const side = optional(spec.side);
+
+    return {
+      eventId: `${gameId}-${getPath(event, spec.id)}`,
+      eventType: spec.typeMap?.[providerType] || providerType,
+      timestamp: new Date(getPath(event, spec.timestamp)),
+      team: optional(spec.team),
+      side: side === undefined ? undefined : spec.sideMap?.[String(side)],
+      player: optional(spec.player),
+      points: optional(spec.points),
+      minute: optional(spec.minute),
+      period: optional(spec.period),
+      payload: {
+        originalEvent: event
+      }
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import { FeedSpec, getPath } from './FeedSpec';
+import { INSTANCE_SEPARATOR } from '../../../domain/services/FixtureLifecycle';
+
+// Checks one upstream record against what its feed spec expects, before any
+// mapping. Returns the problems, empty when the record is usable.
+export function validateRecord(spec: FeedSpec, record: any): string[] {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return ['not an object'];
+  }
+
+  const problems: string[] = [];
+  const { fields } = spec;
+  const isPresent = (value: unknown) => value !== undefined && value !== null && value !== '';
+
+  const id = getPath(record, fields.id);
+  if (!isPresent(id) || (typeof id !== 'string' && typeof id !== 'number')) {
+    problems.push(`${fields.id} is missing`);
+  } else if (String(id).includes(INSTANCE_SEPARATOR)) {
+    problems.push(`${fields.id} must not contain "${INSTANCE_SEPARATOR}", it is reserved for match instances`);
+  }
+
+  [fields.team1, fields.team2].forEach(fieldPath => {
+    const team = getPath(record, fieldPath);
+    if (!isPresent(team) || typeof team === 'object') {
+      problems.push(`${fieldPath} is missing`);
+    }
+  });
+
+  // Guessing a status would record a spurious correction or a new match
+  const status = getPath(record, fields.status);
+  if (!isPresent(status)) {
+    problems.push(`${fields.status} is missing`);
+  } else if (!Object.prototype.hasOwnProperty.call(spec.statusMap, String(status))) {
+    problems.push(`${fields.status} ${JSON.stringify(status)} is not in the feed spec's statusMap`);
+  }
+
+  // A missing score counts as 0; a wrong one would make Score throw
+  [fields.score1, fields.score2].forEach(fieldPath => {
+    const score = fieldPath ? getPath(record, fieldPath) : undefined;
+    if (isPresent(score) && !(Number.isInteger(Number(score)) && Number(score) >= 0)) {
+      problems.push(`${fieldPath} must be a whole number of 0 or more, got ${JSON.stringify(score)}`);
+    }
+  });
+
+  if (spec.events) {
+    const events = getPath(record, spec.events.path);
+
+    if (isPresent(events) && !Array.isArray(events)) {
+      problems.push(`${spec.events.path} must be a list`);
+    } else if (Array.isArray(events)) {
+      events.forEach((event: any, index: number) => {
+        const where = `${spec.events!.path}.${index}`;
+
+        if (!event || typeof event !== 'object') {
+          problems.push(`${where} is not an object`);
+          return;
+        }
+        if (!isPresent(getPath(event, spec.events!.id))) {
+          problems.push(`${where}.${spec.events!.id} is missing`);
+        }
+        if (!isPresent(getPath(event, spec.events!.type))) {
+          problems.push(`${where}.${spec.events!.type} is missing`);
+        }
+        if (Number.isNaN(new Date(getPath(event, spec.events!.timestamp)).getTime())) {
+          problems.push(`${where}.${spec.events!.timestamp} is not a date`);
+        }
+      });
+    }
+  }
+
+  return problems;
+}
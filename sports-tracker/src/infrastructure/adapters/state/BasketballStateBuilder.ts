@@ -0,0 +1,113 @@
+import { GameStatusEnum } from '../../../domain/value-objects/GameStatus';
+import {
+  BasketballState,
+  BasketballPhase,
+  BasketballSide,
+  BasketballTeamStats
+} from '../../../domain/value-objects/BasketballState';
+import { SportStateBuilder, SportStateContext } from './SportStateBuilder';
+
+interface BasketballRecord {
+  quarter: number;
+  // Time remaining in the quarter ("MM:SS")
+  clock?: string;
+  phase?: string;
+  events: Array<{
+    type: string;
+    team?: string;
+    player?: number;
+    points?: number;
+    quarter: number;
+  }>;
+}
+
+function mapSide(team?: string): BasketballSide | undefined {
+  if (team === 'home') return 'TEAM1';
+  if (team === 'away') return 'TEAM2';
+  return undefined;
+}
+
+function mapPhase(record: BasketballRecord, context: SportStateContext): BasketballPhase {
+  if (context.status.getValue() === GameStatusEnum.SCHEDULED) return 'PRE_GAME';
+  if (context.status.getValue() === GameStatusEnum.FINISHED) return 'FINAL';
+
+  switch (record.phase) {
+    case 'BREAK':
+    case 'HALFTIME':
+    case 'OVERTIME':
+      return record.phase;
+    default:
+      return record.quarter > 4 ? 'OVERTIME' : 'QUARTER';
+  }
+}
+
+export const buildBasketballState: SportStateBuilder = (record: BasketballRecord, context) => {
+  const quarter = Math.max(1, record.quarter || 1);
+  const teams = { TEAM1: BasketballState.emptyStats(), TEAM2: BasketballState.emptyStats() };
+  const personalFouls: { [player: string]: number } = {};
+  const pointsByQuarter: { quarter: number; team1: number; team2: number }[] = [];
+
+  const addPoints = (side: BasketballSide, eventQuarter: number, points: number) => {
+    let quarterPoints = pointsByQuarter.find(entry => entry.quarter === eventQuarter);
+    if (!quarterPoints) {
+      quarterPoints = { quarter: eventQuarter, team1: 0, team2: 0 };
+      pointsByQuarter.push(quarterPoints);
+    }
+    side === 'TEAM1' ? quarterPoints.team1 += points : quarterPoints.team2 += points;
+  };
+
+  (record.events || []).forEach(event => {
+    const side = mapSide(event.team);
+    if (!side) return;
+
+    const stats: BasketballTeamStats = teams[side];
+
+    switch (event.type) {
+      case 'TWO_POINTER':
+        stats.twoPointers++;
+        addPoints(side, event.quarter, event.points ?? 2);
+        break;
+      case 'THREE_POINTER':
+        stats.threePointers++;
+        addPoints(side, event.quarter, event.points ?? 3);
+        break;
+      case 'FREE_THROW_MADE':
+        stats.freeThrowsMade++;
+        stats.freeThrowsAttempted++;
+        addPoints(side, event.quarter, event.points ?? 1);
+        break;
+      case 'FREE_THROW_MISSED':
+        stats.freeThrowsAttempted++;
+        break;
+      case 'FOUL':
+        if (event.quarter === quarter) {
+          stats.periodFouls++;
+        }
+        if (event.player !== undefined) {
+          const key = `${side}-${event.player}`;
+          personalFouls[key] = (personalFouls[key] || 0) + 1;
+          if (BasketballState.isFouledOut(personalFouls[key]) && !stats.fouledOut.includes(event.player)) {
+            stats.fouledOut.push(event.player);
+          }
+        }
+        break;
+    }
+  });
+
+  // A team is in the bonus once its opponent committed enough fouls
+  teams.TEAM1.inBonus = BasketballState.isBonus(teams.TEAM2.periodFouls);
+  teams.TEAM2.inBonus = BasketballState.isBonus(teams.TEAM1.periodFouls);
+
+  const basketballState = new BasketballState(
+    quarter,
+    mapPhase(record, context),
+    record.clock || null,
+    pointsByQuarter,
+    { team1: teams.TEAM1, team2: teams.TEAM2 }
+  );
+
+  return {
+    state: basketballState,
+    currentTime: basketballState.toDisplayString(context.team1, context.team2)
+  };
+};
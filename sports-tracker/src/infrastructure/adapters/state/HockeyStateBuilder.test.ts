@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameStatus } from '../../../domain/value-objects/GameStatus';
+import { HockeyState } from '../../../domain/value-objects/HockeyState';
+import { buildHockeyState } from './HockeyStateBuilder';
+
+const context = { status: GameStatus.live(), team1: 'Home', team2: 'Away' };
+
+const penaltyEnds = (events: any[]) =>
+  (buildHockeyState({ period: 1, clock: '05:00', events }, context).state as HockeyState)
+    .toJSON()
+    .penalties.map(penalty => penalty.endsAt);
+
+test('a power-play goal releases only the earliest-expiring minor', () => {
+  // Two overlapping minors put team2 two men short; team1 scores at 17:30 left
+  const ends = penaltyEnds([
+    { type: 'PENALTY', team: 'team2', period: 1, clock: '19:00', duration: 2 },
+    { type: 'PENALTY', team: 'team2', period: 1, clock: '18:00', duration: 2 },
+    { type: 'GOAL', team: 'team1', period: 1, clock: '17:30' }
+  ]);
+
+  assert.deepEqual(ends, [150, 240]);
+});
+
+test('a goal at even strength releases nothing', () => {
+  const ends = penaltyEnds([
+    { type: 'PENALTY', team: 'team1', period: 1, clock: '19:00', duration: 2 },
+    { type: 'PENALTY', team: 'team2', period: 1, clock: '19:00', duration: 2 },
+    { type: 'GOAL', team: 'team1', period: 1, clock: '18:00' }
+  ]);
+
+  assert.deepEqual(ends, [180, 180]);
+});
@@ -0,0 +1,136 @@
+import { GameStatusEnum } from '../../../domain/value-objects/GameStatus';
+import {
+  HockeyState,
+  HockeyPhase,
+  HockeyPenalty,
+  HockeyPeriodGoals,
+  HockeySide,
+  elapsedAt,
+  parseClock
+} from '../../../domain/value-objects/HockeyState';
+import { SportStateBuilder, SportStateContext } from './SportStateBuilder';
+
+interface HockeyRecord {
+  period: number;
+  // Time remaining in the period ("MM:SS")
+  clock?: string;
+  phase?: string;
+  events: HockeyRecordEvent[];
+}
+
+interface HockeyRecordEvent {
+  type: string;
+  team?: string;
+  period: number;
+  clock?: string;
+  // Penalty length in minutes
+  duration?: number;
+  player?: number;
+}
+
+function mapSide(team?: string): HockeySide | undefined {
+  if (team === 'team1') return 'TEAM1';
+  if (team === 'team2') return 'TEAM2';
+  return undefined;
+}
+
+function mapPhase(record: HockeyRecord, context: SportStateContext): HockeyPhase {
+  if (context.status.getValue() === GameStatusEnum.SCHEDULED) return 'PRE_GAME';
+  if (context.status.getValue() === GameStatusEnum.FINISHED) return 'FINAL';
+
+  switch (record.phase) {
+    case 'INTERMISSION':
+    case 'OVERTIME':
+    case 'SHOOTOUT':
+      return record.phase;
+    default:
+      return record.period > 3 ? 'OVERTIME' : 'REGULATION';
+  }
+}
+
+function eventElapsed(event: HockeyRecordEvent): number | null {
+  const clock = parseClock(event.clock);
+  return clock === null ? null : elapsedAt(event.period, clock);
+}
+
+export const buildHockeyState: SportStateBuilder = (record: HockeyRecord, context) => {
+  const events = record.events || [];
+  const goalsByPeriod: HockeyPeriodGoals[] = [];
+  const goals: { side: HockeySide; at: number | null }[] = [];
+  const shootout = { team1: 0, team2: 0 };
+  let shootoutAttempts = 0;
+
+  events.forEach(event => {
+    const side = mapSide(event.team);
+    if (!side) return;
+
+    if (event.type === 'GOAL') {
+      let periodGoals = goalsByPeriod.find(goals => goals.period === event.period);
+      if (!periodGoals) {
+        periodGoals = { period: event.period, team1: 0, team2: 0 };
+        goalsByPeriod.push(periodGoals);
+      }
+      side === 'TEAM1' ? periodGoals.team1++ : periodGoals.team2++;
+      goals.push({ side, at: eventElapsed(event) });
+    } else if (event.type === 'SHOOTOUT_GOAL' || event.type === 'SHOOTOUT_MISS') {
+      shootoutAttempts++;
+      if (event.type === 'SHOOTOUT_GOAL') {
+        side === 'TEAM1' ? shootout.team1++ : shootout.team2++;
+      }
+    }
+  });
+
+  const penalties: HockeyPenalty[] = [];
+
+  events
+    .filter(event => event.type === 'PENALTY')
+    .forEach(event => {
+      const side = mapSide(event.team);
+      const startsAt = eventElapsed(event);
+      // Without a clock the time in the box is unknown
+      if (!side || startsAt === null) return;
+
+      const durationSeconds = (event.duration || 2) * 60;
+
+      penalties.push({
+        side,
+        period: event.period,
+        startsAt,
+        durationSeconds,
+        endsAt: startsAt + durationSeconds,
+        ...(event.player !== undefined && { player: event.player })
+      });
+    });
+
+  // A power-play goal ends one minor of the shorthanded team, the one that
+  // would expire first; any others keep running
+  goals
+    .filter((goal): goal is { side: HockeySide; at: number } => goal.at !== null)
+    .sort((a, b) => a.at - b.at)
+    .forEach(goal => {
+      const serving = penalties.filter(penalty => penalty.startsAt < goal.at && goal.at < penalty.endsAt);
+      const inBox = (side: HockeySide) => serving.filter(penalty => penalty.side === side).length;
+      if (inBox(goal.side) >= inBox(goal.side === 'TEAM1' ? 'TEAM2' : 'TEAM1')) return;
+
+      const released = serving
+        .filter(penalty => penalty.side !== goal.side && penalty.durationSeconds === 120)
+        .sort((a, b) => a.endsAt - b.endsAt)[0];
+      if (released) {
+        released.endsAt = goal.at;
+      }
+    });
+
+  const hockeyState = new HockeyState(
+    Math.max(1, record.period || 1),
+    mapPhase(record, context),
+    parseClock(record.clock),
+    penalties,
+    goalsByPeriod,
+    shootoutAttempts > 0 ? shootout : null
+  );
+
+  return {
+    state: hockeyState,
+    currentTime: hockeyState.toDisplayString(context.team1, context.team2)
+  };
+};
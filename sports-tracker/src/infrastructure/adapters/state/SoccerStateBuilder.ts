@@ -0,0 +1,101 @@
+import { GameStatusEnum } from '../../../domain/value-objects/GameStatus';
+import {
+  SoccerState,
+  SoccerPhase,
+  SoccerSide,
+  SoccerCard,
+  SoccerSubstitution
+} from '../../../domain/value-objects/SoccerState';
+import { SportStateBuilder, SportStateContext } from './SportStateBuilder';
+
+interface SoccerRecord {
+  minute: number;
+  // Stoppage minutes played, e.g. 3 for 90+3'
+  addedTime?: number;
+  phase?: string;
+  events: Array<{
+    type: string;
+    minute: number;
+    team: string;
+    player?: number;
+    // Player coming on, for substitutions
+    playerIn?: number;
+  }>;
+}
+
+function mapSide(team: string): SoccerSide {
+  return team === 'away' ? 'TEAM2' : 'TEAM1';
+}
+
+function mapPhase(record: SoccerRecord, context: SportStateContext): SoccerPhase {
+  if (context.status.getValue() === GameStatusEnum.SCHEDULED) return 'PRE_MATCH';
+  if (context.status.getValue() === GameStatusEnum.FINISHED) return 'FULL_TIME';
+
+  switch (record.phase) {
+    case 'FIRST_HALF':
+    case 'HALF_TIME':
+    case 'SECOND_HALF':
+    case 'EXTRA_TIME':
+    case 'PENALTIES':
+      return record.phase;
+    default:
+      // Feeds without a phase only send the minute
+      if (record.minute > 90) return 'EXTRA_TIME';
+      return record.minute > 45 ? 'SECOND_HALF' : 'FIRST_HALF';
+  }
+}
+
+export const buildSoccerState: SportStateBuilder = (record: SoccerRecord, context) => {
+  const cards: SoccerCard[] = [];
+  const substitutions: SoccerSubstitution[] = [];
+  const penalties = { team1: 0, team2: 0 };
+  let penaltiesTaken = 0;
+
+  (record.events || []).forEach(event => {
+    const side = mapSide(event.team);
+
+    switch (event.type) {
+      case 'YELLOW_CARD':
+      case 'SECOND_YELLOW':
+      case 'RED_CARD':
+        cards.push({
+          side,
+          card: event.type === 'SECOND_YELLOW'
+            ? 'SECOND_YELLOW'
+            : SoccerState.classifyCard(cards, side, event.type === 'RED_CARD' ? 'RED' : 'YELLOW', event.player),
+          minute: event.minute,
+          ...(event.player !== undefined && { player: event.player })
+        });
+        break;
+      case 'SUBSTITUTION':
+        substitutions.push({
+          side,
+          minute: event.minute,
+          ...(event.player !== undefined && { playerOut: event.player }),
+          ...(event.playerIn !== undefined && { playerIn: event.playerIn })
+        });
+        break;
+      case 'SHOOTOUT_GOAL':
+      case 'SHOOTOUT_MISS':
+        penaltiesTaken++;
+        if (event.type === 'SHOOTOUT_GOAL') {
+          side === 'TEAM1' ? penalties.team1++ : penalties.team2++;
+        }
+        break;
+    }
+  });
+
+  const soccerState = new SoccerState(
+    mapPhase(record, context),
+    Math.max(0, record.minute || 0),
+    Math.max(0, record.addedTime || 0),
+    cards,
+    substitutions,
+    penaltiesTaken > 0 ? penalties : null
+  );
+
+  return {
+    state: soccerState,
+    currentTime: soccerState.toDisplayString(context.team1, context.team2)
+  };
+};
@@ -0,0 +1,20 @@
+import { GameStatus } from '../../../domain/value-objects/GameStatus';
+import { Score } from '../../../domain/value-objects/Score';
+import { SportState } from '../../../domain/value-objects/SportState';
+
+export interface SportStateContext {
+  status: GameStatus;
+  team1: string;
+  team2: string;
+}
+
+export interface SportStateBuild {
+  state: SportState;
+  currentTime: string;
+  // Set when score1/score2 follow from the state (tennis: sets won)
+  score?: Score;
+}
+
+// Builds a sport's state from one raw feed record. Builders know the
+// provider's record shape, so a feed spec names the one matching its feed.
+export type SportStateBuilder = (record: any, context: SportStateContext) => SportStateBuild;
@@ -0,0 +1,13 @@
+import { SportStateBuilder } from './SportStateBuilder';
+import { buildSoccerState } from './SoccerStateBuilder';
+import { buildTennisState } from './TennisStateBuilder';
+import { buildHockeyState } from './HockeyStateBuilder';
+import { buildBasketballState } from './BasketballStateBuilder';
+
+// Named builders a feed spec can reference in its "sportState" field
+export const SPORT_STATE_BUILDERS: { [name: string]: SportStateBuilder } = {
+  soccer: buildSoccerState,
+  tennis: buildTennisState,
+  hockey: buildHockeyState,
+  basketball: buildBasketballState
+};
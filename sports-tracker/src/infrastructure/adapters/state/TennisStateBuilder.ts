@@ -0,0 +1,37 @@
+import { Score } from '../../../domain/value-objects/Score';
+import { TennisScore, TennisFormat } from '../../../domain/value-objects/TennisScore';
+import { SportStateBuilder } from './SportStateBuilder';
+
+interface TennisRecord {
+  setScore: Array<{
+    p1: number;
+    p2: number;
+    tiebreak?: { p1: number; p2: number };
+  }>;
+  currentGame?: {
+    p1: string;
+    p2: string;
+  };
+  server?: number;
+  bestOf?: number;
+}
+
+export const buildTennisState: SportStateBuilder = (record: TennisRecord) => {
+  const bestOf: TennisFormat = record.bestOf === 5 ? 5 : 3;
+  const server = record.server === 1 || record.server === 2 ? record.server : null;
+
+  // Regular game points; during a tiebreak the feed counts in setScore
+  const current = record.currentGame;
+  const points = current && TennisScore.isPoint(current.p1) && TennisScore.isPoint(current.p2)
+    ? { p1: current.p1, p2: current.p2 }
+    : null;
+
+  const tennisScore = new TennisScore(bestOf, record.setScore || [], points, server);
+  const setsWon = tennisScore.getSetsWon();
+
+  return {
+    state: tennisScore,
+    currentTime: tennisScore.toDisplayString(),
+    score: Score.create(setsWon.p1, setsWon.p2)
+  };
+};
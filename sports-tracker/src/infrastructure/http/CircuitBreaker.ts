@@ -0,0 +1,70 @@
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export interface CircuitBreakerOptions {
+  // Consecutive failed fetches that open the circuit
+  failureThreshold: number;
+  // How long an open circuit rejects calls before letting one trial through
+  cooldownMs: number;
+}
+
+// Stops calling a provider that keeps failing. After the cooldown one
+// trial call is let through (HALF_OPEN): success closes the circuit,
+// failure opens it for another cooldown.
+export class CircuitBreaker {
+  private state: CircuitState = 'CLOSED';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly name: string,
+    private readonly options: CircuitBreakerOptions
+  ) {}
+
+  canRequest(): boolean {
+    if (this.state === 'OPEN' && Date.now() - this.openedAt >= this.options.cooldownMs) {
+      this.state = 'HALF_OPEN';
+      this.trialInFlight = false;
+    }
+
+    if (this.state === 'HALF_OPEN') {
+      if (this.trialInFlight) {
+        return false;
+      }
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return this.state === 'CLOSED';
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'CLOSED') {
+      console.log(`${this.name}: circuit closed`);
+    }
+    this.state = 'CLOSED';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'HALF_OPEN' || this.consecutiveFailures >= this.options.failureThreshold) {
+      if (this.state !== 'OPEN') {
+        console.warn(`${this.name}: circuit opened after ${this.consecutiveFailures} failures`);
+      }
+      this.state = 'OPEN';
+      this.openedAt = Date.now();
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  getRetryAt(): Date | null {
+    return this.state === 'OPEN' ? new Date(this.openedAt + this.options.cooldownMs) : null;
+  }
+}
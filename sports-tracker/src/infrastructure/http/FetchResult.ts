@@ -0,0 +1,23 @@
+export type FetchErrorKind =
+  | 'TIMEOUT'
+  | 'NETWORK'
+  | 'HTTP'
+  | 'CIRCUIT_OPEN'
+  | 'INVALID_RESPONSE';
+
+export interface FetchError {
+  kind: FetchErrorKind;
+  message: string;
+  // HTTP status, for kind HTTP
+  status?: number;
+}
+
+// Outcome of fetching from a provider. A failure is never an empty list:
+// callers must leave their data as it is when ok is false.
+export type FetchResult<T> =
+  | { ok: true; data: T; latencyMs: number; attempts: number }
+  | { ok: false; error: FetchError; latencyMs: number; attempts: number };
+
+export function fetchFailure<T>(error: FetchError, latencyMs: number, attempts: number): FetchResult<T> {
+  return { ok: false, error, latencyMs, attempts };
+}
@@ -0,0 +1,123 @@
+import axios from 'axios';
+import { CircuitBreaker, CircuitBreakerOptions, CircuitState } from './CircuitBreaker';
+import { FetchError, FetchResult, fetchFailure } from './FetchResult';
+
+export interface HttpClientOptions extends CircuitBreakerOptions {
+  // Per attempt, including connecting
+  timeoutMs: number;
+  // Attempts after the first one
+  retries: number;
+  // Backoff before retry n is a random delay up to min(maxDelay, base * 2^n)
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+}
+
+export const DEFAULT_HTTP_OPTIONS: HttpClientOptions = {
+  timeoutMs: 3000,
+  retries: 2,
+  backoffBaseMs: 200,
+  backoffMaxMs: 2000,
+  failureThreshold: 5,
+  cooldownMs: 30000
+};
+
+// Shared provider fetch layer: per-attempt timeout, retries with jittered
+// exponential backoff and a circuit breaker, one client per source
+export class ResilientHttpClient {
+  private readonly breaker: CircuitBreaker;
+  private readonly options: HttpClientOptions;
+
+  constructor(
+    private readonly name: string,
+    options: Partial<HttpClientOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_HTTP_OPTIONS, ...options };
+    this.breaker = new CircuitBreaker(name, this.options);
+  }
+
+  async getJson<T = any>(url: string): Promise<FetchResult<T>> {
+    const startedAt = Date.now();
+
+    if (!this.breaker.canRequest()) {
+      return fetchFailure(
+        {
+          kind: 'CIRCUIT_OPEN',
+          message: `Circuit open until ${this.breaker.getRetryAt()?.toISOString()}`
+        },
+        0,
+        0
+      );
+    }
+
+    let lastError: FetchError = { kind: 'NETWORK', message: 'No attempt made' };
+    let attempts = 0;
+
+    for (let attempt = 0; attempt <= this.options.retries; attempt++) {
+      if (attempt > 0) {
+        await this.backoff(attempt);
+      }
+      attempts++;
+
+      try {
+        const response = await axios.get<T>(url, {
+          timeout: this.options.timeoutMs,
+          // axios' timeout doesn't cover connecting
+          signal: AbortSignal.timeout(this.options.timeoutMs)
+        });
+
+        this.breaker.recordSuccess();
+        return { ok: true, data: response.data, latencyMs: Date.now() - startedAt, attempts };
+
+      } catch (error) {
+        lastError = this.toFetchError(error);
+
+        if (!this.isRetryable(lastError)) {
+          break;
+        }
+
+        console.warn(`${this.name}: attempt ${attempts} failed (${lastError.kind}: ${lastError.message})`);
+      }
+    }
+
+    this.breaker.recordFailure();
+    return fetchFailure(lastError, Date.now() - startedAt, attempts);
+  }
+
+  getCircuitState(): CircuitState {
+    return this.breaker.getState();
+  }
+
+  private backoff(attempt: number): Promise<void> {
+    const ceiling = Math.min(this.options.backoffMaxMs, this.options.backoffBaseMs * 2 ** attempt);
+    const delay = Math.floor(Math.random() * ceiling);
+    return new Promise(resolve => setTimeout(resolve, delay));
+  }
+
+  // Client errors won't get better by asking again; 429 might
+  private isRetryable(error: FetchError): boolean {
+    if (error.kind !== 'HTTP') {
+      return true;
+    }
+    return error.status === undefined || error.status === 429 || error.status >= 500;
+  }
+
+  private toFetchError(error: unknown): FetchError {
+    if (axios.isAxiosError(error)) {
+      if (error.response) {
+        return {
+          kind: 'HTTP',
+          message: `HTTP ${error.response.status}`,
+          status: error.response.status
+        };
+      }
+
+      if (error.code === 'ECONNABORTED' || error.code === 'ERR_CANCELED' || error.code === 'ETIMEDOUT') {
+        return { kind: 'TIMEOUT', message: `No response within ${this.options.timeoutMs}ms` };
+      }
+
+      return { kind: 'NETWORK', message: error.code || error.message };
+    }
+
+    return { kind: 'NETWORK', message: (error as Error)?.message || String(error) };
+  }
+}
@@ -0,0 +1,5 @@
+// One topic per sport, e.g. "sports.soccer.events"
+export function topicForSport(sport: string): string {
+  const prefix = process.env.KAFKA_TOPIC_PREFIX || 'sports';
+  return `${prefix}.${sport.toLowerCase()}.events`;
+}
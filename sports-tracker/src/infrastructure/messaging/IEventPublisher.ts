@@ -0,0 +1,13 @@
+export interface OutboundMessage {
+  topic: string;
+  key: string;
+  value: any;
+  headers?: { [name: string]: string };
+}
+
+export interface IEventPublisher {
+  connect(): Promise<void>;
+  // Resolves only once every message has been acknowledged, in order
+  publish(messages: OutboundMessage[]): Promise<void>;
+  disconnect(): Promise<void>;
+}
@@ -0,0 +1,31 @@
+import { IEventPublisher, OutboundMessage } from './IEventPublisher';
+
+// In-process stand-in for Kafka, for exercising the outbox relay in tests.
+// Keeps every message it is given, so it is never wired into the server.
+export class InMemoryEventPublisher implements IEventPublisher {
+  private readonly topics = new Map<string, OutboundMessage[]>();
+
+  async connect(): Promise<void> {
+    // Nothing to connect to
+  }
+
+  async publish(messages: OutboundMessage[]): Promise<void> {
+    for (const message of messages) {
+      const topicMessages = this.topics.get(message.topic) || [];
+      topicMessages.push(message);
+      this.topics.set(message.topic, topicMessages);
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.topics.clear();
+  }
+
+  getMessages(topic: string): OutboundMessage[] {
+    return [...(this.topics.get(topic) || [])];
+  }
+
+  getTopics(): string[] {
+    return Array.from(this.topics.keys());
+  }
+}
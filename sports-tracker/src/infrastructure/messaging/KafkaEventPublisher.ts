@@ -0,0 +1,53 @@
+import { Kafka, Producer } from 'kafkajs';
+import { IEventPublisher, OutboundMessage } from './IEventPublisher';
+
+export class KafkaEventPublisher implements IEventPublisher {
+  private readonly producer: Producer;
+
+  constructor(brokers: string[], clientId: string = 'sports-tracker') {
+    const kafka = new Kafka({ clientId, brokers });
+
+    // Idempotent producer with a single in-flight request keeps retries from
+    // duplicating or reordering messages within a partition
+    this.producer = kafka.producer({
+      idempotent: true,
+      maxInFlightRequests: 1,
+      allowAutoTopicCreation: true
+    });
+  }
+
+  async connect(): Promise<void> {
+    await this.producer.connect();
+    console.log('Connected to Kafka');
+  }
+
+  async publish(messages: OutboundMessage[]): Promise<void> {
+    if (messages.length === 0) {
+      return;
+    }
+
+    const byTopic = new Map<string, OutboundMessage[]>();
+    for (const message of messages) {
+      const topicMessages = byTopic.get(message.topic) || [];
+      topicMessages.push(message);
+      byTopic.set(message.topic, topicMessages);
+    }
+
+    await this.producer.sendBatch({
+      acks: -1,
+      topicMessages: Array.from(byTopic.entries()).map(([topic, topicMessages]) => ({
+        topic,
+        messages: topicMessages.map(message => ({
+          key: message.key,
+          value: JSON.stringify(message.value),
+          headers: message.headers
+        }))
+      }))
+    });
+  }
+
+  async disconnect(): Promise<void> {
+    await this.producer.disconnect();
+    console.log('Disconnected from Kafka');
+  }
+}
@@ -0,0 +1,122 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { GameRepository } from '../persistence/GameRepository';
+
+// Served on /metrics. Labels are limited to sport, event type, error kind,
+// route pattern, method and status so series stay bounded: never a game ID,
+// a raw URL or an error message.
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry, prefix: 'sports_tracker_' });
+
+export const syncCycleDuration = new Histogram({
+  name: 'sports_tracker_sync_cycle_duration_seconds',
+  help: 'Duration of one sync run of a sport: fetch and commit',
+  labelNames: ['sport'],
+  buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry]
+});
+
+export const syncCyclesInProgress = new Gauge({
+  name: 'sports_tracker_sync_cycles_in_progress',
+  help: 'Sync runs currently going on, per sport (0 or 1)',
+  labelNames: ['sport'],
+  registers: [metricsRegistry]
+});
+
+export const syncCycleOverlaps = new Counter({
+  name: 'sports_tracker_sync_cycle_overlaps_total',
+  help: 'Syncs of a sport requested while its previous run was still going; they join that run',
+  labelNames: ['sport'],
+  registers: [metricsRegistry]
+});
+
+export const gamesFetched = new Counter({
+  name: 'sports_tracker_games_fetched_total',
+  help: 'Games returned by provider fetches',
+  labelNames: ['sport'],
+  registers: [metricsRegistry]
+});
+
+export const recordsQuarantined = new Counter({
+  name: 'sports_tracker_records_quarantined_total',
+  help: 'Upstream records rejected by validation or mapping',
+  labelNames: ['sport', 'source'],
+  registers: [metricsRegistry]
+});
+
+export const eventsWritten = new Counter({
+  name: 'sports_tracker_events_written_total',
+  help: 'Events committed to the event store',
+  labelNames: ['sport', 'event_type'],
+  registers: [metricsRegistry]
+});
+
+// Types we derive are fixed by the code. A provider's play event types
+// count only when its feed spec lists them (events.types).
+export function eventTypeLabel(
+  event: { eventType: string; sourceEventId?: string },
+  knownProviderTypes: string[]
+): string {
+  return !event.sourceEventId || knownProviderTypes.includes(event.eventType) ? event.eventType : 'OTHER';
+}
+
+export const adapterFetchDuration = new Histogram({
+  name: 'sports_tracker_adapter_fetch_duration_seconds',
+  help: 'Provider fetch duration including retries',
+  labelNames: ['sport', 'outcome'],
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [metricsRegistry]
+});
+
+export const adapterErrors = new Counter({
+  name: 'sports_tracker_adapter_errors_total',
+  help: 'Failed provider fetches by error kind',
+  labelNames: ['sport', 'kind'],
+  registers: [metricsRegistry]
+});
+
+export const eventStoreAppendDuration = new Histogram({
+  name: 'sports_tracker_event_store_append_duration_seconds',
+  help: 'Duration of an event store append',
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1],
+  registers: [metricsRegistry]
+});
+
+export const eventStoreConflicts = new Counter({
+  name: 'sports_tracker_event_store_version_conflicts_total',
+  help: 'Appends rejected because the aggregate moved past the expected version',
+  registers: [metricsRegistry]
+});
+
+export const httpRequests = new Counter({
+  name: 'sports_tracker_http_requests_total',
+  help: 'HTTP requests by route pattern',
+  labelNames: ['method', 'route', 'status'],
+  registers: [metricsRegistry]
+});
+
+export const httpRequestDuration = new Histogram({
+  name: 'sports_tracker_http_request_duration_seconds',
+  help: 'HTTP request duration by route pattern',
+  labelNames: ['method', 'route'],
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5],
+  registers: [metricsRegistry]
+});
+
+// Read from the games collection at scrape time
+export function registerLiveGamesGauge(gameRepository: GameRepository, sports: string[]): void {
+  new Gauge({
+    name: 'sports_tracker_live_games',
+    help: 'Games currently LIVE',
+    labelNames: ['sport'],
+    registers: [metricsRegistry],
+    async collect() {
+      try {
+        const counts = await gameRepository.countLiveBySport();
+        sports.forEach(sport => this.set({ sport }, counts[sport] || 0));
+      } catch (error) {
+        console.error('Error counting live games for metrics:', error);
+      }
+    }
+  });
+}
@@ -1,5 +1,9 @@
 import { EventModel, IEventDocument } from './schemas/EventSchema';
+import { CounterModel } from './schemas/CounterSchema';
+import { InvalidCursorError } from './GameRepository';
+import { ClientSession } from 'mongoose';
 import { v4 as uuidv4 } from 'uuid';
+import { eventStoreAppendDuration, eventStoreConflicts } from '../metrics/metrics';
 
 export interface EventData {
   eventType: string;
@@ -7,48 +11,249 @@ export interface EventData {
   timestamp: Date;
   payload: any;
   sourceApi?: string;
+  sourceEventId?: string;
+}
+
+export class ConcurrencyError extends Error {
+  constructor(
+    public readonly aggregateId: string,
+    public readonly expectedVersion: number,
+    public readonly actualVersion?: number
+  ) {
+    super(
+      `Concurrency conflict on ${aggregateId}: expected version ${expectedVersion}` +
+      (actualVersion !== undefined ? `, found ${actualVersion}` : '')
+    );
+    this.name = 'ConcurrencyError';
+  }
+}
+
+// The provider sent an event ID this game already has. Retrying can't help,
+// unlike a version conflict.
+export class DuplicateSourceEventError extends Error {
+  constructor(public readonly aggregateId: string, detail: string) {
+    super(`Duplicate source event on ${aggregateId}: ${detail}`);
+    this.name = 'DuplicateSourceEventError';
+  }
+}
+
+const DUPLICATE_KEY_ERROR = 11000;
+const EVENT_SEQUENCE = 'events';
+
+export interface EventFeedQuery {
+  eventTypes?: string[];
+  sport?: string;
+  gameId?: string;
+  // Range on timestamp, inclusive
+  from?: Date;
+  to?: Date;
+  limit: number;
+  cursor?: string;
+}
+
+export interface EventFeedPage {
+  events: IEventDocument[];
+  // Where to resume: after the last event returned, or where the request
+  // started when nothing new matched. Null only for an empty first page.
+  nextCursor: string | null;
+  hasMore: boolean;
 }
 
 export class EventStore {
-  async saveEvent(eventData: EventData): Promise<IEventDocument> {
+  // Appends events for one aggregate, numbering them after expectedVersion.
+  // Pass a session to make the append part of a wider transaction.
+  async appendEvents(
+    aggregateId: string,
+    expectedVersion: number,
+    events: EventData[],
+    session?: ClientSession
+  ): Promise<IEventDocument[]> {
+    if (events.length === 0) {
+      return [];
+    }
+
+    const stopTimer = eventStoreAppendDuration.startTimer();
+
+    const currentVersion = await this.getCurrentVersion(aggregateId, session);
+    if (currentVersion !== expectedVersion) {
+      eventStoreConflicts.inc();
+      throw new ConcurrencyError(aggregateId, expectedVersion, currentVersion);
+    }
+
+    const lastSequence = await this.reserveSequences(events.length, session);
+
+    const documents = events.map((eventData, index) => ({
+      eventId: uuidv4(),
+      eventType: eventData.eventType,
+      aggregateId,
+      aggregateType: 'GAME',
+      version: expectedVersion + index + 1,
+      sequence: lastSequence - events.length + index + 1,
+      timestamp: eventData.timestamp,
+      payload: eventData.payload,
+      sourceApi: eventData.sourceApi,
+      sourceEventId: eventData.sourceEventId,
+      createdAt: new Date()
+    }));
+
     try {
-      const currentVersion = await this.getCurrentVersion(eventData.aggregateId);
-      const nextVersion = currentVersion + 1;
-
-      const event = new EventModel({
-        eventId: uuidv4(),
-        eventType: eventData.eventType,
-        aggregateId: eventData.aggregateId,
-        aggregateType: 'GAME',
-        version: nextVersion,
-        timestamp: eventData.timestamp,
-        payload: eventData.payload,
-        sourceApi: eventData.sourceApi,
-        createdAt: new Date()
+      const savedEvents = await EventModel.insertMany(documents, {
+        session,
+        ordered: true
+      });
+
+      stopTimer();
+
+      savedEvents.forEach(event => {
+        console.log(`Event saved: ${event.eventType} for ${aggregateId} (v${event.version})`);
       });
 
-      const savedEvent = await event.save();
-      
-      console.log(`Event saved: ${eventData.eventType} for ${eventData.aggregateId} (v${nextVersion})`);
-      
-      return savedEvent;
+      return savedEvents as IEventDocument[];
 
-    } catch (error) {
-      console.error('Error saving event:', error);
+    } catch (error: any) {
+      if (error?.code === DUPLICATE_KEY_ERROR) {
+        // Which unique index: only {aggregateId, version} means another writer got in first
+        if (error.keyPattern?.sourceEventId !== undefined || /sourceEventId/.test(error.message)) {
+          throw new DuplicateSourceEventError(aggregateId, error.message);
+        }
+
+        eventStoreConflicts.inc();
+        throw new ConcurrencyError(aggregateId, expectedVersion);
+      }
+
+      console.error('Error saving events:', error);
       throw error;
     }
   }
 
-  async getCurrentVersion(aggregateId: string): Promise<number> {
+  // Takes the next count numbers of the global sequence and returns the last.
+  // Inside a transaction the counter stays locked until commit, so a
+  // concurrent append retries after it: sequences become visible in order,
+  // and a reader resuming after N never misses a lower one committed later.
+  private async reserveSequences(count: number, session?: ClientSession): Promise<number> {
+    const counter = await CounterModel.findOneAndUpdate(
+      { _id: EVENT_SEQUENCE },
+      { $inc: { seq: count } },
+      { new: true, upsert: true, session }
+    ).exec();
+
+    return counter!.seq;
+  }
+
+  // Creates the sequence counter and numbers events recorded before it
+  // existed, oldest first. Run at startup; returns how many were numbered.
+  async assignMissingSequences(batchSize: number = 500): Promise<number> {
+    // Up front, so concurrent appends never race to create it
+    await CounterModel.updateOne(
+      { _id: EVENT_SEQUENCE },
+      { $setOnInsert: { seq: 0 } },
+      { upsert: true }
+    ).exec();
+
+    let assigned = 0;
+
+    for (;;) {
+      const batch = await EventModel
+        .find({ sequence: { $exists: false } })
+        .sort({ createdAt: 1, aggregateId: 1, version: 1 })
+        .select('_id')
+        .limit(batchSize)
+        .exec();
+
+      if (batch.length === 0) {
+        return assigned;
+      }
+
+      const lastSequence = await this.reserveSequences(batch.length);
+      await EventModel.bulkWrite(
+        batch.map((event, index) => ({
+          updateOne: {
+            // Another instance may have numbered it meanwhile
+            filter: { _id: event._id, sequence: { $exists: false } },
+            update: { $set: { sequence: lastSequence - batch.length + index + 1 } }
+          }
+        }))
+      );
+
+      assigned += batch.length;
+    }
+  }
+
+  // Events across all games in sequence order, a page at a time
+  async getFeed(query: EventFeedQuery): Promise<EventFeedPage> {
+    const afterSequence = query.cursor ? this.decodeCursor(query.cursor) : 0;
+    const filter: any = { sequence: { $gt: afterSequence } };
+
+    if (query.eventTypes && query.eventTypes.length > 0) filter.eventType = { $in: query.eventTypes };
+    if (query.sport) filter['payload.sport'] = query.sport;
+    if (query.gameId) filter.aggregateId = query.gameId;
+    if (query.from || query.to) {
+      filter.timestamp = {
+        ...(query.from && { $gte: query.from }),
+        ...(query.to && { $lte: query.to })
+      };
+    }
+
+    const events = await EventModel
+      .find(filter)
+      .sort({ sequence: 1 })
+      // One extra tells whether there is more
+      .limit(query.limit + 1)
+      .exec();
+
+    const page = events.slice(0, query.limit);
+    const last = page[page.length - 1];
+
+    return {
+      events: page,
+      nextCursor: last ? this.encodeCursor(last.sequence!) : query.cursor ?? null,
+      hasMore: events.length > query.limit
+    };
+  }
+
+  private encodeCursor(sequence: number): string {
+    return Buffer.from(JSON.stringify({ sequence })).toString('base64url');
+  }
+
+  private decodeCursor(encoded: string): number {
+    let cursor: any;
+    try {
+      cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    } catch {
+      throw new InvalidCursorError('not a cursor');
+    }
+
+    if (!Number.isInteger(cursor?.sequence) || cursor.sequence < 0) {
+      throw new InvalidCursorError('not a cursor');
+    }
+    return cursor.sequence;
+  }
+
+  async getCurrentVersion(
+    aggregateId: string,
+    session?: ClientSession
+  ): Promise<number> {
     const lastEvent = await EventModel
       .findOne({ aggregateId })
       .sort({ version: -1 })
       .select('version')
+      .session(session ?? null)
       .exec();
 
     return lastEvent ? lastEvent.version : 0;
   }
 
+  async getRecordedSourceEventIds(aggregateId: string): Promise<Set<string>> {
+    const sourceEventIds = await EventModel
+      .distinct('sourceEventId', {
+        aggregateId,
+        sourceEventId: { $exists: true }
+      })
+      .exec();
+
+    return new Set(sourceEventIds as string[]);
+  }
+
   async getEventsByGameId(aggregateId: string): Promise<any[]> {
     const events = await EventModel
       .find({ aggregateId })
@@ -73,6 +278,59 @@ export class EventStore {
     return events;
   }
 
+  // What had been recorded for these games by asOf, by game then version.
+  // Play events carry the provider's time in timestamp, so it can't say
+  // when we knew about them; createdAt can.
+  async getEventsRecordedBy(aggregateIds: string[], asOf: Date): Promise<any[]> {
+    const events = await EventModel
+      .find({
+        aggregateId: { $in: aggregateIds },
+        createdAt: { $lte: asOf }
+      })
+      .sort({ aggregateId: 1, version: 1 })
+      .exec();
+
+    return events;
+  }
+
+  async getEvent(aggregateId: string, version: number): Promise<any | null> {
+    return await EventModel.findOne({ aggregateId, version }).exec();
+  }
+
+  // Events across all games after a point in the global sequence, oldest first
+  async getEventsAfterSequence(
+    afterSequence: number,
+    options: { sports?: string[]; eventTypes?: string[]; limit?: number } = {}
+  ): Promise<any[]> {
+    const filter: any = { sequence: { $gt: afterSequence } };
+    if (options.sports && options.sports.length > 0) {
+      filter['payload.sport'] = { $in: options.sports };
+    }
+    if (options.eventTypes && options.eventTypes.length > 0) {
+      filter.eventType = { $in: options.eventTypes };
+    }
+
+    const events = await EventModel
+      .find(filter)
+      .sort({ sequence: 1 })
+      .limit(options.limit ?? 500)
+      .exec();
+
+    return events;
+  }
+
+  // Appends hold the counter until they commit, so every event numbered
+  // below the latest committed one is already visible
+  async getLatestSequence(): Promise<number> {
+    const lastEvent = await EventModel
+      .findOne({ sequence: { $exists: true } })
+      .sort({ sequence: -1 })
+      .select('sequence')
+      .exec();
+
+    return lastEvent?.sequence ?? 0;
+  }
+
   async getEventsByType(
     eventType: string,
     limit: number = 100
@@ -86,6 +344,10 @@ export class EventStore {
     return events;
   }
 
+  async getAggregateIds(): Promise<string[]> {
+    return await EventModel.distinct('aggregateId').exec();
+  }
+
   async countEvents(aggregateId: string): Promise<number> {
     return await EventModel.countDocuments({ aggregateId });
   }
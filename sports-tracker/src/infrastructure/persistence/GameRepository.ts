@@ -1,20 +1,71 @@
 import { GameModel, IGameDocument } from './schemas/GameSchema';
+import { ClientSession } from 'mongoose';
 import { Game } from '../../domain/entities/Game';
+import { Score } from '../../domain/value-objects/Score';
+import { GameStatus, GameStatusEnum } from '../../domain/value-objects/GameStatus';
+import { sportStateFromJSON } from '../../domain/value-objects/SportStateFactory';
+
+export type GameSortField = 'lastUpdated' | 'createdAt';
+
+export interface GameListQuery {
+  sport?: string;
+  status?: string;
+  // Exact name, on either side
+  team?: string;
+  // Team registry ID, on either side
+  teamId?: string;
+  // Only games first recorded by then (point-in-time listing)
+  createdBefore?: Date;
+  // Range on the sort field's dates, inclusive
+  dateField: GameSortField;
+  from?: Date;
+  to?: Date;
+  sort: { field: GameSortField; direction: 1 | -1 };
+  // Document fields to load; all when omitted
+  fields?: string[];
+  limit: number;
+  cursor?: string;
+}
+
+export interface GamePage {
+  games: any[];
+  // Opaque; null on the last page
+  nextCursor: string | null;
+}
+
+export class InvalidCursorError extends Error {
+  constructor(reason: string) {
+    super(`Invalid cursor: ${reason}`);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+interface GameCursor {
+  // Sort the cursor was issued for, e.g. "-lastUpdated"
+  sort: string;
+  value: string;
+  gameId: string;
+}
 
 export class GameRepository {
-  async save(game: Game): Promise<IGameDocument> {
+  // version/lastEventId are owned by updateVersion, so a save never rewinds them
+  async save(game: Game, session?: ClientSession): Promise<IGameDocument> {
     try {
       const gameData = {
         gameId: game.getGameId(),
+        providerGameId: game.getProviderGameId(),
         sport: game.getSport(),
+        competition: game.getCompetition(),
         team1: game.getTeam1Name(),
         team2: game.getTeam2Name(),
+        team1Id: game.getTeam1Id(),
+        team2Id: game.getTeam2Id(),
         score1: game.getScore().getTeam1Score(),
         score2: game.getScore().getTeam2Score(),
+        sportState: game.getSportState()?.toJSON(),
         status: game.getStatus().getValue(),
         currentTime: game.getCurrentTime(),
-        version: 0,
-        lastUpdated: new Date()
+        lastUpdated: game.getLastUpdated()
       };
 
       const savedGame = await GameModel.findOneAndUpdate(
@@ -23,7 +74,8 @@ export class GameRepository {
         {
           new: true,
           upsert: true,
-          runValidators: true
+          runValidators: true,
+          session
         }
       ).exec();
 
@@ -37,11 +89,60 @@ export class GameRepository {
     }
   }
 
+  // Rehydrates a stored snapshot into a Game aggregate (without play events)
+  toEntity(document: any): Game {
+    return new Game(
+      document.gameId,
+      document.sport,
+      [
+        { name: document.team1, side: 'TEAM1', teamId: document.team1Id },
+        { name: document.team2, side: 'TEAM2', teamId: document.team2Id }
+      ],
+      Score.create(document.score1, document.score2),
+      new GameStatus(document.status as GameStatusEnum),
+      document.currentTime,
+      [],
+      document.lastUpdated,
+      document.providerGameId || document.gameId,
+      sportStateFromJSON(document.sportState),
+      document.competition
+    );
+  }
+
   async findById(gameId: string): Promise<IGameDocument | null> {
     const game = await GameModel.findOne({ gameId }).exec();
     return game;
   }
 
+  // Games stored before match instances existed have no providerGameId,
+  // their gameId is the provider ID
+  private providerFilter(providerGameId: string) {
+    return {
+      $or: [
+        { providerGameId },
+        { gameId: providerGameId, providerGameId: { $exists: false } }
+      ]
+    };
+  }
+
+  async findCurrentInstance(providerGameId: string): Promise<IGameDocument | null> {
+    const game = await GameModel
+      .findOne(this.providerFilter(providerGameId))
+      .sort({ createdAt: -1 })
+      .exec();
+
+    return game;
+  }
+
+  async findInstances(providerGameId: string): Promise<any[]> {
+    const games = await GameModel
+      .find(this.providerFilter(providerGameId))
+      .sort({ createdAt: 1 })
+      .exec();
+
+    return games;
+  }
+
   async findAll(): Promise<any[]> {
     const games = await GameModel
       .find()
@@ -51,6 +152,113 @@ export class GameRepository {
     return games;
   }
 
+  // Keyset pagination on (sort field, gameId): each page starts after the
+  // last game of the previous one, so it stays fast and stable while games
+  // are added. createdAt never changes; lastUpdated moves on every sync, so a
+  // game updated while a client pages through it can be skipped or repeated.
+  // Backed by the { ..., <sort field>, gameId } indexes.
+  async findPage(query: GameListQuery): Promise<GamePage> {
+    const { field, direction } = query.sort;
+    const sortKey = `${direction === -1 ? '-' : ''}${field}`;
+    const conditions: any[] = [];
+
+    if (query.sport) conditions.push({ sport: query.sport });
+    // Every status spelled out lets a sport's pages merge the sport+status
+    // index ranges in sort order
+    if (query.status) {
+      conditions.push({ status: query.status });
+    } else if (query.sport) {
+      conditions.push({ status: { $in: Object.values(GameStatusEnum) } });
+    }
+    if (query.team) conditions.push({ $or: [{ team1: query.team }, { team2: query.team }] });
+    if (query.teamId) conditions.push({ $or: [{ team1Id: query.teamId }, { team2Id: query.teamId }] });
+
+    if (query.createdBefore) conditions.push({ createdAt: { $lte: query.createdBefore } });
+
+    if (query.from || query.to) {
+      conditions.push({
+        [query.dateField]: {
+          ...(query.from && { $gte: query.from }),
+          ...(query.to && { $lte: query.to })
+        }
+      });
+    }
+
+    if (query.cursor) {
+      const cursor = this.decodeCursor(query.cursor);
+      if (cursor.sort !== sortKey) {
+        throw new InvalidCursorError(`issued for sort ${cursor.sort}`);
+      }
+
+      const comparison = direction === -1 ? '$lt' : '$gt';
+      const value = new Date(cursor.value);
+      conditions.push({
+        $or: [
+          { [field]: { [comparison]: value } },
+          { [field]: value, gameId: { [comparison]: cursor.gameId } }
+        ]
+      });
+    }
+
+    let find = GameModel
+      .find(conditions.length > 0 ? { $and: conditions } : {})
+      .sort({ [field]: direction, gameId: direction })
+      // One extra tells whether there is a next page
+      .limit(query.limit + 1);
+
+    if (query.fields) {
+      find = find.select(Array.from(new Set([...query.fields, 'gameId', field])).join(' '));
+    }
+
+    const games = await find.exec();
+    const page = games.slice(0, query.limit);
+    const last = page[page.length - 1];
+
+    return {
+      games: page,
+      nextCursor: games.length > query.limit && last
+        ? this.encodeCursor({ sort: sortKey, value: last[field].toISOString(), gameId: last.gameId })
+        : null
+    };
+  }
+
+  private encodeCursor(cursor: GameCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private decodeCursor(encoded: string): GameCursor {
+    let cursor: any;
+    try {
+      cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    } catch {
+      throw new InvalidCursorError('not a cursor');
+    }
+
+    if (
+      typeof cursor?.sort !== 'string' ||
+      typeof cursor.gameId !== 'string' ||
+      Number.isNaN(new Date(cursor.value).getTime())
+    ) {
+      throw new InvalidCursorError('not a cursor');
+    }
+    return cursor;
+  }
+
+  // Every meeting of two teams, either way round, most recent first
+  async findHeadToHead(teamA: string, teamB: string): Promise<any[]> {
+    const games = await GameModel
+      .find({
+        $or: [
+          { team1Id: teamA, team2Id: teamB },
+          { team1Id: teamB, team2Id: teamA }
+        ]
+      })
+      .sort({ lastUpdated: -1, gameId: -1 })
+      .exec();
+
+    return games;
+  }
+
   async findBySport(sport: string): Promise<any[]> {
     const games = await GameModel
       .find({ sport })
@@ -81,7 +289,8 @@ export class GameRepository {
   async updateVersion(
     gameId: string,
     version: number,
-    eventId: string
+    eventId: string,
+    session?: ClientSession
   ): Promise<void> {
     await GameModel.updateOne(
       { gameId },
@@ -91,7 +300,8 @@ export class GameRepository {
           lastEventId: eventId,
           lastUpdated: new Date()
         }
-      }
+      },
+      { session }
     ).exec();
   }
 
@@ -124,4 +334,21 @@ export class GameRepository {
       return acc;
     }, {});
   }
-}
\ No newline at end of file
+
+  async countLiveBySport(): Promise<{ [sport: string]: number }> {
+    const results = await GameModel.aggregate([
+      { $match: { status: 'LIVE' } },
+      {
+        $group: {
+          _id: '$sport',
+          count: { $sum: 1 }
+        }
+      }
+    ]).exec();
+
+    return results.reduce((acc: any, curr: any) => {
+      acc[curr._id] = curr.count;
+      return acc;
+    }, {});
+  }
+}
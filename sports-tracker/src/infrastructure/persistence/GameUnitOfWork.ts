@@ -0,0 +1,76 @@
+import mongoose from 'mongoose';
+import { EventStore, EventData, ConcurrencyError } from './EventStore';
+import { GameRepository } from './GameRepository';
+import { OutboxRepository } from './OutboxRepository';
+import { IEventDocument } from './schemas/EventSchema';
+import { Game } from '../../domain/entities/Game';
+
+export interface GameCommit {
+  aggregateId: string;
+  expectedVersion: number;
+  events: EventData[];
+  snapshot: Game;
+}
+
+// Appends a batch of events, queues them in the outbox and updates the game
+// snapshot (including version/lastEventId) in one MongoDB transaction.
+// Transactions need a replica set, see docker-compose.yml.
+export class GameUnitOfWork {
+  private eventStore: EventStore;
+  private gameRepository: GameRepository;
+  private outboxRepository: OutboxRepository;
+
+  constructor(
+    eventStore: EventStore,
+    gameRepository: GameRepository,
+    outboxRepository: OutboxRepository
+  ) {
+    this.eventStore = eventStore;
+    this.gameRepository = gameRepository;
+    this.outboxRepository = outboxRepository;
+  }
+
+  async commit(commit: GameCommit): Promise<IEventDocument[]> {
+    if (commit.events.length === 0) {
+      await this.saveSnapshot(commit);
+      return [];
+    }
+
+    return await mongoose.connection.transaction(async session => {
+      const savedEvents = await this.eventStore.appendEvents(
+        commit.aggregateId,
+        commit.expectedVersion,
+        commit.events,
+        session
+      );
+
+      await this.outboxRepository.enqueue(savedEvents, session);
+
+      await this.gameRepository.save(commit.snapshot, session);
+
+      const lastEvent = savedEvents[savedEvents.length - 1];
+      await this.gameRepository.updateVersion(
+        commit.aggregateId,
+        lastEvent.version,
+        lastEvent.eventId,
+        session
+      );
+
+      return savedEvents;
+    });
+  }
+
+  // Fields that produce no event (competition, team spelling, lastUpdated)
+  // still reach the snapshot, unless another writer appended meanwhile:
+  // its snapshot is newer
+  private async saveSnapshot(commit: GameCommit): Promise<void> {
+    await mongoose.connection.transaction(async session => {
+      const currentVersion = await this.eventStore.getCurrentVersion(commit.aggregateId, session);
+      if (currentVersion !== commit.expectedVersion) {
+        throw new ConcurrencyError(commit.aggregateId, commit.expectedVersion, currentVersion);
+      }
+
+      await this.gameRepository.save(commit.snapshot, session);
+    });
+  }
+}
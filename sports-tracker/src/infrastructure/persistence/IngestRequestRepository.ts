@@ -0,0 +1,90 @@
+import { IngestRequestModel, IIngestRequestDocument } from './schemas/IngestRequestSchema';
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+// Long enough for one push to be processed; a claim left by a crashed or
+// timed out request blocks retries of its key for no longer than this
+const DEFAULT_LEASE_MS = 60 * 1000;
+
+export class IngestRequestRepository {
+  constructor(private readonly leaseMs: number = DEFAULT_LEASE_MS) {}
+
+  // Claims the key for this request under claimId. Returns null when it is
+  // new or its previous claim lapsed, or the request that holds it.
+  async claim(
+    sport: string,
+    idempotencyKey: string,
+    bodyHash: string,
+    claimId: string
+  ): Promise<IIngestRequestDocument | null> {
+    const now = new Date();
+    const leaseExpiresAt = new Date(now.getTime() + this.leaseMs);
+
+    try {
+      await IngestRequestModel.create({
+        sport,
+        idempotencyKey,
+        bodyHash,
+        status: 'PROCESSING',
+        claimId,
+        leaseExpiresAt,
+        createdAt: now
+      });
+      return null;
+
+    } catch (error: any) {
+      if (error?.code !== DUPLICATE_KEY_ERROR) {
+        throw error;
+      }
+
+      const takenOver = await IngestRequestModel.findOneAndUpdate(
+        {
+          sport,
+          idempotencyKey,
+          bodyHash,
+          status: 'PROCESSING',
+          // Claims made before leases existed have none
+          $or: [{ leaseExpiresAt: { $lte: now } }, { leaseExpiresAt: { $exists: false } }]
+        },
+        { $set: { claimId, leaseExpiresAt } }
+      ).exec();
+      if (takenOver) {
+        console.warn(`${sport}: Took over lapsed ingest claim for key ${idempotencyKey}`);
+        return null;
+      }
+
+      const existing = await IngestRequestModel.findOne({ sport, idempotencyKey }).exec();
+      if (!existing) {
+        // Expired in between: let the caller try again
+        throw error;
+      }
+      return existing;
+    }
+  }
+
+  // Only the current claim can complete the key: a request that outlived
+  // its lease leaves it to the one that took over
+  async complete(
+    sport: string,
+    idempotencyKey: string,
+    claimId: string,
+    result: any
+  ): Promise<void> {
+    await IngestRequestModel.updateOne(
+      { sport, idempotencyKey, status: 'PROCESSING', claimId },
+      {
+        $set: {
+          status: 'COMPLETED',
+          result,
+          completedAt: new Date()
+        },
+        $unset: { leaseExpiresAt: '' }
+      }
+    ).exec();
+  }
+
+  // Frees the key after a failure, so the provider's retry is processed
+  async release(sport: string, idempotencyKey: string, claimId: string): Promise<void> {
+    await IngestRequestModel.deleteOne({ sport, idempotencyKey, status: 'PROCESSING', claimId }).exec();
+  }
+}
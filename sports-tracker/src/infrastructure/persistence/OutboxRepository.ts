@@ -0,0 +1,108 @@
+import { ClientSession } from 'mongoose';
+import { OutboxModel, OutboxLeaseModel, IOutboxDocument } from './schemas/OutboxSchema';
+import { IEventDocument } from './schemas/EventSchema';
+import { topicForSport } from '../messaging/EventTopics';
+
+const RELAY_LEASE_ID = 'outbox-relay';
+const DUPLICATE_KEY_ERROR = 11000;
+
+export class OutboxRepository {
+  // Called inside the same transaction as the event append
+  async enqueue(
+    events: IEventDocument[],
+    session?: ClientSession
+  ): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    const messages = events.map(event => ({
+      eventId: event.eventId,
+      eventType: event.eventType,
+      aggregateId: event.aggregateId,
+      version: event.version,
+      topic: topicForSport(event.payload?.sport || 'unknown'),
+      key: event.aggregateId,
+      value: {
+        eventId: event.eventId,
+        eventType: event.eventType,
+        aggregateId: event.aggregateId,
+        version: event.version,
+        sequence: event.sequence,
+        timestamp: event.timestamp.toISOString(),
+        payload: event.payload,
+        sourceApi: event.sourceApi
+      },
+      createdAt: event.createdAt
+    }));
+
+    await OutboxModel.insertMany(messages, { session, ordered: true });
+  }
+
+  async findPending(limit: number = 100): Promise<IOutboxDocument[]> {
+    return await OutboxModel
+      .find({ publishedAt: { $exists: false } })
+      .sort({ createdAt: 1, aggregateId: 1, version: 1 })
+      .limit(limit)
+      .exec();
+  }
+
+  async markPublished(eventIds: string[]): Promise<void> {
+    await OutboxModel.updateMany(
+      { eventId: { $in: eventIds } },
+      { $set: { publishedAt: new Date() } }
+    ).exec();
+  }
+
+  async recordFailure(eventIds: string[], error: string): Promise<void> {
+    await OutboxModel.updateMany(
+      { eventId: { $in: eventIds } },
+      {
+        $inc: { attempts: 1 },
+        $set: { lastError: error }
+      }
+    ).exec();
+  }
+
+  async countPending(): Promise<number> {
+    return await OutboxModel.countDocuments({ publishedAt: { $exists: false } }).exec();
+  }
+
+  // Only one relay may publish at a time, otherwise two instances could
+  // interleave messages of the same game. Returns true while we hold the lease.
+  async acquireLease(owner: string, ttlMs: number): Promise<boolean> {
+    const now = new Date();
+
+    try {
+      const lease = await OutboxLeaseModel.findOneAndUpdate(
+        {
+          _id: RELAY_LEASE_ID,
+          $or: [
+            { owner },
+            { lockedUntil: { $lt: now } }
+          ]
+        },
+        {
+          $set: {
+            owner,
+            lockedUntil: new Date(now.getTime() + ttlMs)
+          }
+        },
+        { upsert: true, new: true }
+      ).exec();
+
+      return lease?.owner === owner;
+
+    } catch (error: any) {
+      // Upsert lost the race against a live lease held by someone else
+      if (error?.code === DUPLICATE_KEY_ERROR) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async releaseLease(owner: string): Promise<void> {
+    await OutboxLeaseModel.deleteOne({ _id: RELAY_LEASE_ID, owner }).exec();
+  }
+}
@@ -0,0 +1,90 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import {
+  QuarantineModel,
+  IQuarantineDocument,
+  QuarantineSource,
+  QuarantineStatus
+} from './schemas/QuarantineSchema';
+import { RejectedRecord } from '../adapters/ISportAdapter';
+
+export interface QuarantineFilter {
+  sport?: string;
+  status?: QuarantineStatus;
+  limit?: number;
+}
+
+export class QuarantineRepository {
+  async add(sport: string, source: QuarantineSource, records: RejectedRecord[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+
+    const now = new Date();
+
+    await QuarantineModel.bulkWrite(
+      records.map(record => ({
+        updateOne: {
+          filter: { sport, payloadHash: this.hash(record.record) },
+          // A record seen again only counts: a reprocessed one stays reprocessed
+          update: {
+            $set: { lastSeenAt: now },
+            $setOnInsert: {
+              source,
+              providerGameId: record.providerGameId,
+              reason: record.reason,
+              status: 'QUARANTINED',
+              payload: record.record,
+              firstSeenAt: now
+            },
+            $inc: { occurrences: 1 }
+          },
+          upsert: true
+        }
+      })),
+      { ordered: false }
+    );
+  }
+
+  // Without the payloads, which can be large
+  async find(filter: QuarantineFilter = {}): Promise<IQuarantineDocument[]> {
+    const query: any = {};
+    if (filter.sport) query.sport = filter.sport;
+    if (filter.status) query.status = filter.status;
+
+    return await QuarantineModel
+      .find(query)
+      .select('-payload')
+      .sort({ lastSeenAt: -1 })
+      .limit(filter.limit ?? 50)
+      .exec();
+  }
+
+  async findById(id: string): Promise<IQuarantineDocument | null> {
+    if (!mongoose.isValidObjectId(id)) {
+      return null;
+    }
+    return await QuarantineModel.findById(id).exec();
+  }
+
+  async markReprocessed(id: string, gameId: string): Promise<void> {
+    await QuarantineModel.updateOne(
+      { _id: id },
+      {
+        $set: {
+          status: 'REPROCESSED',
+          reprocessedAt: new Date(),
+          reprocessedGameId: gameId
+        }
+      }
+    ).exec();
+  }
+
+  async updateReason(id: string, reason: string): Promise<void> {
+    await QuarantineModel.updateOne({ _id: id }, { $set: { reason } }).exec();
+  }
+
+  private hash(record: any): string {
+    return crypto.createHash('sha256').update(JSON.stringify(record) ?? 'undefined').digest('hex');
+  }
+}
@@ -0,0 +1,146 @@
+import mongoose from 'mongoose';
+import {
+  StandingsRowModel,
+  StandingsResultModel,
+  IStandingsRowDocument,
+  IStandingsResultDocument
+} from './schemas/StandingsSchema';
+import { CounterModel } from './schemas/CounterSchema';
+import { StandingsLine, ResultDecision } from '../../domain/rules/StandingsRules';
+
+// What a finished game counts for in its competition's table
+export interface CountedResult {
+  gameId: string;
+  sport: string;
+  competition: string;
+  team1Id: string;
+  team2Id: string;
+  score1: number;
+  score2: number;
+  decidedIn: ResultDecision;
+  rule: string;
+  // For team1 and team2
+  lines: [StandingsLine, StandingsLine];
+}
+
+const CHECKPOINT_ID = 'standings';
+
+const LINE_FIELDS: (keyof StandingsLine)[] = [
+  'played', 'won', 'drawn', 'lost', 'overtimeLosses', 'goalsFor', 'goalsAgainst', 'points'
+];
+
+export class StandingsRepository {
+  // Takes back what the game counted for before and adds the new result
+  // (none when it no longer counts), in one transaction. Returns false when
+  // it already counted for exactly this.
+  async replaceResult(gameId: string, next: CountedResult | null): Promise<boolean> {
+    return await mongoose.connection.transaction(async session => {
+      const previous = await StandingsResultModel.findOne({ gameId }).session(session).lean().exec();
+
+      if (!previous && !next) {
+        return false;
+      }
+      if (previous && next && this.sameResult(previous, next)) {
+        return false;
+      }
+
+      const rows = new Map<string, { sport: string; competition: string; teamId: string; inc: StandingsLine }>();
+      const count = (result: CountedResult, sign: 1 | -1) => {
+        [result.team1Id, result.team2Id].forEach((teamId, side) => {
+          const key = `${result.sport}|${result.competition}|${teamId}`;
+          const row = rows.get(key) ?? {
+            sport: result.sport,
+            competition: result.competition,
+            teamId,
+            inc: Object.fromEntries(LINE_FIELDS.map(field => [field, 0])) as unknown as StandingsLine
+          };
+
+          LINE_FIELDS.forEach(field => {
+            row.inc[field] += sign * result.lines[side][field];
+          });
+          rows.set(key, row);
+        });
+      };
+
+      if (previous) count(previous as unknown as CountedResult, -1);
+      if (next) count(next, 1);
+
+      await StandingsRowModel.bulkWrite(
+        Array.from(rows.values()).map(row => ({
+          updateOne: {
+            filter: { sport: row.sport, competition: row.competition, teamId: row.teamId },
+            update: { $inc: row.inc },
+            upsert: true
+          }
+        })),
+        { session }
+      );
+
+      if (next) {
+        await StandingsResultModel.replaceOne(
+          { gameId },
+          { ...next, countedAt: new Date() },
+          { upsert: true, session }
+        ).exec();
+      } else {
+        await StandingsResultModel.deleteOne({ gameId }, { session }).exec();
+      }
+
+      return true;
+    });
+  }
+
+  // Teams with at least one counted game
+  async findRows(sport: string, competition?: string): Promise<IStandingsRowDocument[]> {
+    return await StandingsRowModel
+      .find({ sport, ...(competition && { competition }), played: { $gt: 0 } })
+      .lean<IStandingsRowDocument[]>()
+      .exec();
+  }
+
+  async findResults(sport: string, competition?: string): Promise<IStandingsResultDocument[]> {
+    return await StandingsResultModel
+      .find({ sport, ...(competition && { competition }) })
+      .lean<IStandingsResultDocument[]>()
+      .exec();
+  }
+
+  // Rows and results go together, so no table is left counting results it
+  // no longer has
+  async clear(): Promise<void> {
+    await mongoose.connection.transaction(async session => {
+      await StandingsRowModel.deleteMany({}, { session }).exec();
+      await StandingsResultModel.deleteMany({}, { session }).exec();
+    });
+  }
+
+  // Last event sequence the tables account for; null before the first rebuild
+  async getCheckpoint(): Promise<number | null> {
+    const counter = await CounterModel.findById(CHECKPOINT_ID).lean().exec();
+    return counter ? counter.seq : null;
+  }
+
+  // Never moves back unless reset, as a rebuild does
+  async saveCheckpoint(sequence: number, reset: boolean = false): Promise<void> {
+    await CounterModel.updateOne(
+      { _id: CHECKPOINT_ID },
+      reset ? { $set: { seq: sequence } } : { $max: { seq: sequence } },
+      { upsert: true }
+    ).exec();
+  }
+
+  private sameResult(previous: any, next: CountedResult): boolean {
+    const comparable = (result: any) => JSON.stringify([
+      result.competition,
+      result.team1Id,
+      result.team2Id,
+      result.score1,
+      result.score2,
+      result.decidedIn,
+      result.rule,
+      result.lines.map((line: StandingsLine) => LINE_FIELDS.map(field => line[field]))
+    ]);
+
+    return comparable(previous) === comparable(next);
+  }
+}
@@ -0,0 +1,93 @@
+import { TeamModel, ITeamDocument } from './schemas/TeamSchema';
+import { Team, TeamAlias } from '../../domain/entities/Team';
+
+export interface TeamFilter {
+  sport?: string;
+  limit?: number;
+}
+
+export class TeamRepository {
+  async findById(teamId: string): Promise<Team | null> {
+    const team = await TeamModel.findOne({ teamId }).exec();
+    return team ? this.toEntity(team) : null;
+  }
+
+  async findByIds(teamIds: string[]): Promise<Team[]> {
+    const teams = await TeamModel.find({ teamId: { $in: teamIds } }).exec();
+    return teams.map(team => this.toEntity(team));
+  }
+
+  // Whichever team has this spelling as an alias, from any source
+  async findByName(sport: string, name: string): Promise<Team | null> {
+    const team = await TeamModel
+      .findOne({ sport, 'aliases.normalized': Team.normalizeName(name) })
+      .exec();
+
+    return team ? this.toEntity(team) : null;
+  }
+
+  async find(filter: TeamFilter = {}): Promise<Team[]> {
+    const query: any = {};
+    if (filter.sport) query.sport = filter.sport;
+
+    const teams = await TeamModel
+      .find(query)
+      .sort({ sport: 1, name: 1 })
+      .limit(filter.limit ?? 500)
+      .exec();
+
+    return teams.map(team => this.toEntity(team));
+  }
+
+  // False when the ID or one of the aliases is already taken
+  async create(team: Team): Promise<boolean> {
+    try {
+      await TeamModel.create({
+        teamId: team.getTeamId(),
+        sport: team.getSport(),
+        name: team.getName(),
+        aliases: team.getAliases().map(alias => this.toAliasDocument(alias))
+      });
+      return true;
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // False when the spelling already belongs to another team
+  async addAlias(teamId: string, alias: TeamAlias): Promise<boolean> {
+    const document = this.toAliasDocument(alias);
+
+    try {
+      await TeamModel.updateOne(
+        {
+          teamId,
+          aliases: { $not: { $elemMatch: { source: document.source, normalized: document.normalized } } }
+        },
+        { $push: { aliases: document } }
+      ).exec();
+      return true;
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private toAliasDocument(alias: TeamAlias) {
+    return { source: alias.source, name: alias.name, normalized: Team.normalizeName(alias.name) };
+  }
+
+  private toEntity(document: ITeamDocument): Team {
+    return new Team(
+      document.teamId,
+      document.sport,
+      document.name,
+      document.aliases.map(alias => ({ source: alias.source, name: alias.name }))
+    );
+  }
+}
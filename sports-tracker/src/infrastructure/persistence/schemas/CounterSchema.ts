@@ -0,0 +1,25 @@
+import mongoose, { Schema } from 'mongoose';
+
+// Named sequences, e.g. 'events' for the global event sequence, and
+// consumers' positions in it ('standings')
+export interface ICounterDocument {
+  _id: string;
+  seq: number;
+}
+
+const CounterSchema = new Schema<ICounterDocument>({
+  _id: {
+    type: String,
+    required: true
+  },
+
+  seq: {
+    type: Number,
+    required: true
+  }
+}, {
+  collection: 'counters',
+  timestamps: false
+});
+
+export const CounterModel = mongoose.model<ICounterDocument>('Counter', CounterSchema);
@@ -8,16 +8,23 @@ export interface IEventDocument extends Document {
   aggregateType: string;
   
   version: number;
+  // Position across all games, in commit order (GET /api/events)
+  sequence?: number;
   
   timestamp: Date;
   
   payload: {
     sport?: string;
     team?: string;
+    side?: string;
     player?: number;
+    points?: number;
     minute?: number;
     period?: number;
 
+    previousStatus?: string;
+    newStatus?: string;
+
     previousState?: any;
     newState?: any;
 
@@ -25,6 +32,7 @@ export interface IEventDocument extends Document {
   };
   
   sourceApi?: string;
+  sourceEventId?: string;
   createdAt: Date;
 }
 
@@ -59,6 +67,11 @@ const EventSchema = new Schema<IEventDocument>({
     required: true,
     min: 1
   },
+
+  sequence: {
+    type: Number,
+    min: 1
+  },
   
   timestamp: {
     type: Date,
@@ -74,6 +87,10 @@ const EventSchema = new Schema<IEventDocument>({
   sourceApi: {
     type: String
   },
+
+  sourceEventId: {
+    type: String
+  },
   
   createdAt: {
     type: Date,
@@ -98,4 +115,29 @@ EventSchema.index(
   { eventType: 1, timestamp: -1 }
 );
 
+// Global feed: the sequence alone or after an equality filter
+EventSchema.index(
+  { sequence: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { sequence: { $exists: true } }
+  }
+);
+EventSchema.index({ eventType: 1, sequence: 1 });
+EventSchema.index({ 'payload.sport': 1, sequence: 1 });
+EventSchema.index({ aggregateId: 1, sequence: 1 });
+
+// Point-in-time reads (?asOf=): a game's events recorded up to an instant
+EventSchema.index(
+  { aggregateId: 1, createdAt: 1 }
+);
+
+EventSchema.index(
+  { aggregateId: 1, sourceEventId: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { sourceEventId: { $exists: true } }
+  }
+);
+
 export const EventModel = mongoose.model<IEventDocument>('Event', EventSchema);
\ No newline at end of file
@@ -1,14 +1,20 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { SPORT_IDS } from '../../../config/sports';
 
 export interface IGameDocument extends Document {
   gameId: string;
+  providerGameId: string;
   sport: string;
+  competition?: string;
   
   team1: string;
   team2: string;
+  team1Id?: string;
+  team2Id?: string;
   
   score1: number;
   score2: number;
+  sportState?: any;
   status: string;
   currentTime: string;
   
@@ -28,13 +34,21 @@ const GameSchema = new Schema<IGameDocument>({
     index: true
   },
   
+  providerGameId: {
+    type: String
+  },
+
   sport: {
     type: String,
     required: true,
-    enum: ['SOCCER', 'TENNIS', 'HOCKEY'],
+    enum: SPORT_IDS,
     index: true
   },
   
+  competition: {
+    type: String
+  },
+
   team1: {
     type: String,
     required: true
@@ -44,6 +58,15 @@ const GameSchema = new Schema<IGameDocument>({
     type: String,
     required: true
   },
+
+  // Team registry IDs (TeamSchema)
+  team1Id: {
+    type: String
+  },
+
+  team2Id: {
+    type: String
+  },
   
   score1: {
     type: Number,
@@ -59,6 +82,10 @@ const GameSchema = new Schema<IGameDocument>({
     min: 0
   },
   
+  sportState: {
+    type: Schema.Types.Mixed
+  },
+
   status: {
     type: String,
     required: true,
@@ -92,8 +119,18 @@ const GameSchema = new Schema<IGameDocument>({
   timestamps: true
 });
 
-GameSchema.index({ sport: 1, status: 1 });
-GameSchema.index({ status: 1, lastUpdated: -1 });
-GameSchema.index({ lastUpdated: -1 });
+// The three baseline indexes, extended with the listing sort keys
+// (GameRepository.findPage pages on a date then gameId). Their prefixes
+// still serve the sport/status counts, live games and findAll.
+GameSchema.index({ sport: 1, status: 1, createdAt: -1, gameId: -1 });
+GameSchema.index({ status: 1, lastUpdated: -1, gameId: -1 });
+GameSchema.index({ lastUpdated: -1, gameId: -1 });
+// The default listing, newest first, without filters
+GameSchema.index({ createdAt: -1, gameId: -1 });
+// Match instances, looked up on every sync of every game
+GameSchema.index({ providerGameId: 1, createdAt: -1 });
+// Team pages and head-to-head; a team has few games
+GameSchema.index({ team1Id: 1, createdAt: -1 });
+GameSchema.index({ team2Id: 1, createdAt: -1 });
 
 export const GameModel = mongoose.model<IGameDocument>('Game', GameSchema);
\ No newline at end of file
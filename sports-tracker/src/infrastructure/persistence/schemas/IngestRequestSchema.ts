@@ -0,0 +1,80 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type IngestRequestStatus = 'PROCESSING' | 'COMPLETED';
+
+// One per Idempotency-Key and sport, so a redelivered push gets the first
+// response back instead of being processed again
+export interface IIngestRequestDocument extends Document {
+  sport: string;
+  idempotencyKey: string;
+  // SHA-256 of the raw body: the same key with another body is refused
+  bodyHash: string;
+  status: IngestRequestStatus;
+  // Which request is processing it, and until when; another may take over after
+  claimId?: string;
+  leaseExpiresAt?: Date;
+  // Result of the first delivery, returned again on redelivery
+  result?: any;
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+const IngestRequestSchema = new Schema<IIngestRequestDocument>({
+  sport: {
+    type: String,
+    required: true
+  },
+
+  idempotencyKey: {
+    type: String,
+    required: true
+  },
+
+  bodyHash: {
+    type: String,
+    required: true
+  },
+
+  status: {
+    type: String,
+    required: true,
+    enum: ['PROCESSING', 'COMPLETED']
+  },
+
+  claimId: {
+    type: String
+  },
+
+  leaseExpiresAt: {
+    type: Date
+  },
+
+  result: {
+    type: Schema.Types.Mixed
+  },
+
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+
+  completedAt: {
+    type: Date
+  }
+}, {
+  collection: 'ingest_requests',
+  timestamps: false
+});
+
+IngestRequestSchema.index(
+  { sport: 1, idempotencyKey: 1 },
+  { unique: true }
+);
+
+// Providers retry within minutes; a day is plenty
+IngestRequestSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: 24 * 60 * 60 }
+);
+
+export const IngestRequestModel = mongoose.model<IIngestRequestDocument>('IngestRequest', IngestRequestSchema);
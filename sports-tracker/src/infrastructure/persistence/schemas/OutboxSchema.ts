@@ -0,0 +1,115 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IOutboxDocument extends Document {
+  eventId: string;
+  eventType: string;
+  aggregateId: string;
+  version: number;
+
+  topic: string;
+  key: string;
+  value: any;
+
+  attempts: number;
+  lastError?: string;
+  publishedAt?: Date;
+  createdAt: Date;
+}
+
+const OutboxSchema = new Schema<IOutboxDocument>({
+  eventId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+
+  eventType: {
+    type: String,
+    required: true
+  },
+
+  aggregateId: {
+    type: String,
+    required: true
+  },
+
+  version: {
+    type: Number,
+    required: true
+  },
+
+  topic: {
+    type: String,
+    required: true
+  },
+
+  key: {
+    type: String,
+    required: true
+  },
+
+  value: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+
+  attempts: {
+    type: Number,
+    default: 0
+  },
+
+  lastError: {
+    type: String
+  },
+
+  publishedAt: {
+    type: Date
+  },
+
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  collection: 'outbox',
+  timestamps: false
+});
+
+// Pending messages are relayed oldest first
+OutboxSchema.index(
+  { publishedAt: 1, createdAt: 1, aggregateId: 1, version: 1 }
+);
+
+// Published messages are kept for a week for troubleshooting
+OutboxSchema.index(
+  { publishedAt: 1 },
+  { expireAfterSeconds: 7 * 24 * 60 * 60 }
+);
+
+export const OutboxModel = mongoose.model<IOutboxDocument>('Outbox', OutboxSchema);
+
+export interface IOutboxLeaseDocument extends Document<string> {
+  owner: string;
+  lockedUntil: Date;
+}
+
+const OutboxLeaseSchema = new Schema<IOutboxLeaseDocument>({
+  _id: {
+    type: String
+  },
+
+  owner: {
+    type: String,
+    required: true
+  },
+
+  lockedUntil: {
+    type: Date,
+    required: true
+  }
+}, {
+  collection: 'outbox_leases',
+  timestamps: false
+});
+
+export const OutboxLeaseModel = mongoose.model<IOutboxLeaseDocument>('OutboxLease', OutboxLeaseSchema);
@@ -0,0 +1,99 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type QuarantineSource = 'POLL' | 'PUSH';
+export type QuarantineStatus = 'QUARANTINED' | 'REPROCESSED';
+
+// An upstream record the adapter rejected, stored as received. The same
+// record polled again bumps occurrences instead of adding a copy.
+export interface IQuarantineDocument extends Document {
+  sport: string;
+  source: QuarantineSource;
+  providerGameId?: string;
+  reason: string;
+  payload: any;
+  // SHA-256 of the payload, unique per sport
+  payloadHash: string;
+  status: QuarantineStatus;
+  occurrences: number;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  reprocessedAt?: Date;
+  // Match instance it was recorded on when reprocessed
+  reprocessedGameId?: string;
+}
+
+const QuarantineSchema = new Schema<IQuarantineDocument>({
+  sport: {
+    type: String,
+    required: true
+  },
+
+  source: {
+    type: String,
+    required: true,
+    enum: ['POLL', 'PUSH']
+  },
+
+  providerGameId: {
+    type: String
+  },
+
+  reason: {
+    type: String,
+    required: true
+  },
+
+  payload: {
+    type: Schema.Types.Mixed
+  },
+
+  payloadHash: {
+    type: String,
+    required: true
+  },
+
+  status: {
+    type: String,
+    required: true,
+    enum: ['QUARANTINED', 'REPROCESSED']
+  },
+
+  // Set by the upsert in QuarantineRepository.add
+  occurrences: {
+    type: Number,
+    required: true
+  },
+
+  firstSeenAt: {
+    type: Date,
+    required: true
+  },
+
+  lastSeenAt: {
+    type: Date,
+    required: true
+  },
+
+  reprocessedAt: {
+    type: Date
+  },
+
+  reprocessedGameId: {
+    type: String
+  }
+}, {
+  collection: 'quarantine',
+  timestamps: false
+});
+
+QuarantineSchema.index(
+  { sport: 1, payloadHash: 1 },
+  { unique: true }
+);
+
+// Listing: newest first, by status and sport
+QuarantineSchema.index(
+  { status: 1, sport: 1, lastSeenAt: -1 }
+);
+
+export const QuarantineModel = mongoose.model<IQuarantineDocument>('Quarantine', QuarantineSchema);
@@ -0,0 +1,134 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { StandingsLine } from '../../../domain/rules/StandingsRules';
+
+// One team's row in a competition's table, the sum of its counted results
+export interface IStandingsRowDocument extends Document, StandingsLine {
+  sport: string;
+  competition: string;
+  teamId: string;
+  updatedAt: Date;
+}
+
+// A finished game counted in the standings, with the lines it added, so a
+// correction takes back exactly what was counted
+export interface IStandingsResultDocument extends Document {
+  gameId: string;
+  sport: string;
+  competition: string;
+  team1Id: string;
+  team2Id: string;
+  score1: number;
+  score2: number;
+  decidedIn: string;
+  rule: string;
+  lines: StandingsLine[];
+  countedAt: Date;
+}
+
+// No defaults: rows are only written by the $inc upserts in StandingsRepository
+const lineFields = {
+  played: { type: Number, required: true },
+  won: { type: Number, required: true },
+  drawn: { type: Number, required: true },
+  lost: { type: Number, required: true },
+  overtimeLosses: { type: Number, required: true },
+  goalsFor: { type: Number, required: true },
+  goalsAgainst: { type: Number, required: true },
+  points: { type: Number, required: true }
+};
+
+const StandingsRowSchema = new Schema<IStandingsRowDocument>({
+  sport: {
+    type: String,
+    required: true
+  },
+
+  competition: {
+    type: String,
+    required: true
+  },
+
+  teamId: {
+    type: String,
+    required: true
+  },
+
+  ...lineFields
+}, {
+  collection: 'standings',
+  timestamps: { createdAt: false, updatedAt: true }
+});
+
+StandingsRowSchema.index(
+  { sport: 1, competition: 1, teamId: 1 },
+  { unique: true }
+);
+
+const StandingsResultSchema = new Schema<IStandingsResultDocument>({
+  gameId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+
+  sport: {
+    type: String,
+    required: true
+  },
+
+  competition: {
+    type: String,
+    required: true
+  },
+
+  team1Id: {
+    type: String,
+    required: true
+  },
+
+  team2Id: {
+    type: String,
+    required: true
+  },
+
+  score1: {
+    type: Number,
+    required: true
+  },
+
+  score2: {
+    type: Number,
+    required: true
+  },
+
+  decidedIn: {
+    type: String,
+    required: true,
+    enum: ['REGULATION', 'OVERTIME', 'SHOOTOUT']
+  },
+
+  // STANDINGS_RULES entry the lines were scored with
+  rule: {
+    type: String,
+    required: true
+  },
+
+  lines: {
+    type: [new Schema(lineFields, { _id: false })],
+    required: true
+  },
+
+  countedAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  collection: 'standings_results',
+  timestamps: false
+});
+
+// Head-to-head reads a competition's results
+StandingsResultSchema.index({ sport: 1, competition: 1 });
+
+export const StandingsRowModel = mongoose.model<IStandingsRowDocument>('StandingsRow', StandingsRowSchema);
+export const StandingsResultModel = mongoose.model<IStandingsResultDocument>('StandingsResult', StandingsResultSchema);
@@ -0,0 +1,72 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ITeamAliasDocument {
+  source: string;
+  name: string;
+  // Team.normalizeName(name), what lookups match on
+  normalized: string;
+}
+
+export interface ITeamDocument extends Document {
+  teamId: string;
+  sport: string;
+  name: string;
+  aliases: ITeamAliasDocument[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TeamAliasSchema = new Schema<ITeamAliasDocument>({
+  source: {
+    type: String,
+    required: true
+  },
+
+  name: {
+    type: String,
+    required: true
+  },
+
+  normalized: {
+    type: String,
+    required: true
+  }
+}, {
+  _id: false
+});
+
+const TeamSchema = new Schema<ITeamDocument>({
+  teamId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+
+  sport: {
+    type: String,
+    required: true
+  },
+
+  name: {
+    type: String,
+    required: true
+  },
+
+  aliases: {
+    type: [TeamAliasSchema],
+    default: []
+  }
+}, {
+  collection: 'teams',
+  timestamps: true
+});
+
+// A spelling belongs to one team per sport, whichever source sent it
+TeamSchema.index(
+  { sport: 1, 'aliases.normalized': 1 },
+  { unique: true }
+);
+
+TeamSchema.index({ sport: 1, name: 1 });
+
+export const TeamModel = mongoose.model<ITeamDocument>('Team', TeamSchema);
@@ -0,0 +1,97 @@
+import { Request, Response } from 'express';
+import { GameRebuildService, GameDrift, RebuildResult } from '../../application/services/GameRebuildService';
+import { GameResponseDto, ApiResponse } from '../dto/GameResponseDto';
+import { gameEntityToResponseDto } from '../mappers/GameMapper';
+
+export class AdminController {
+  constructor(private rebuildService: GameRebuildService) {}
+
+  async rebuildAll(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await this.rebuildService.rebuildAll();
+
+      const response: ApiResponse<RebuildResult> = {
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Error in rebuildAll:', error);
+
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to rebuild games',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  async rebuildGame(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const game = await this.rebuildService.rebuildGame(id);
+
+      if (!game) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: `No event stream found for game '${id}'`,
+          timestamp: new Date().toISOString()
+        };
+
+        res.status(404).json(response);
+        return;
+      }
+
+      const gameDto = gameEntityToResponseDto(game);
+
+      const response: ApiResponse<GameResponseDto> = {
+        success: true,
+        data: gameDto,
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Error in rebuildGame:', error);
+
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to rebuild game',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  async getDriftReport(req: Request, res: Response): Promise<void> {
+    try {
+      const drifts = await this.rebuildService.findDrift();
+
+      const response: ApiResponse<{ drifts: GameDrift[]; totalDrifted: number }> = {
+        success: true,
+        data: {
+          drifts,
+          totalDrifted: drifts.length
+        },
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Error in getDriftReport:', error);
+
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to compute drift report',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(500).json(response);
+    }
+  }
+}
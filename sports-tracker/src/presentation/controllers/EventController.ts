@@ -0,0 +1,106 @@
+import { Request, Response } from 'express';
+import { EventStore, EventFeedQuery } from '../../infrastructure/persistence/EventStore';
+import { InvalidCursorError } from '../../infrastructure/persistence/GameRepository';
+import { ApiResponse, EventFeedResponse } from '../dto/GameResponseDto';
+import { toEventResponseDto } from '../mappers/GameMapper';
+import { SportRegistry } from '../../config/sports';
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+export class EventController {
+  constructor(
+    private eventStore: EventStore,
+    private sportRegistry: SportRegistry
+  ) {}
+
+  // ?type=&sport=&gameId=&from=&to=&limit=&cursor=, in sequence order
+  async getFeed(req: Request, res: Response): Promise<void> {
+    try {
+      const query = this.parseFeedQuery(req.query);
+
+      if (typeof query === 'string') {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: query,
+          timestamp: new Date().toISOString()
+        };
+
+        res.status(400).json(response);
+        return;
+      }
+
+      const page = await this.eventStore.getFeed(query);
+
+      const response: EventFeedResponse = {
+        success: true,
+        data: page.events.map(toEventResponseDto),
+        nextCursor: page.nextCursor,
+        hasMore: page.hasMore,
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: error.message,
+          timestamp: new Date().toISOString()
+        };
+
+        res.status(400).json(response);
+        return;
+      }
+
+      console.error('Error in getFeed:', error);
+
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to fetch events',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  // An error message when a parameter is invalid
+  private parseFeedQuery(params: Request['query']): EventFeedQuery | string {
+    const text = (name: string): string | undefined => {
+      const value = params[name];
+      return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+    };
+
+    const sport = text('sport')?.toUpperCase();
+    if (sport && !this.sportRegistry.has(sport)) {
+      return `Invalid sport. Must be one of: ${this.sportRegistry.getIds().join(', ')}`;
+    }
+
+    const dates: { from?: Date; to?: Date } = {};
+    for (const name of ['from', 'to'] as const) {
+      const value = text(name);
+      if (value) {
+        const date = new Date(value);
+        if (Number.isNaN(date.getTime())) {
+          return `Invalid ${name}: expected an ISO date`;
+        }
+        dates[name] = date;
+      }
+    }
+
+    const limit = text('limit') ? parseInt(text('limit')!) : DEFAULT_PAGE_SIZE;
+    if (Number.isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return `Invalid limit. Must be between 1 and ${MAX_PAGE_SIZE}`;
+    }
+
+    return {
+      eventTypes: text('type')?.split(',').map(type => type.trim().toUpperCase()).filter(Boolean),
+      sport,
+      gameId: text('gameId'),
+      ...dates,
+      limit,
+      cursor: text('cursor')
+    };
+  }
+}
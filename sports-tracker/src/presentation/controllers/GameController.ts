@@ -1,38 +1,112 @@
 import { Request, Response } from 'express';
-import { GameRepository } from '../../infrastructure/persistence/GameRepository';
+import {
+  GameRepository,
+  GameListQuery,
+  GameSortField,
+  InvalidCursorError
+} from '../../infrastructure/persistence/GameRepository';
 import { EventStore } from '../../infrastructure/persistence/EventStore';
-import { GameResponseDto, EventResponseDto, StatsResponseDto, ApiResponse } from '../dto/GameResponseDto';
+import { PointInTimeService } from '../../application/services/PointInTimeService';
+import {
+  GameResponseDto,
+  GameAsOfResponseDto,
+  EventResponseDto,
+  StatsResponseDto,
+  ApiResponse,
+  PagedApiResponse
+} from '../dto/GameResponseDto';
+import { toGameResponseDto, toEventResponseDto, gameAsOfToResponseDto } from '../mappers/GameMapper';
+import { SportRegistry } from '../../config/sports';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const STATUSES = ['SCHEDULED', 'LIVE', 'FINISHED'];
+const SORT_FIELDS: GameSortField[] = ['lastUpdated', 'createdAt'];
+const GAME_FIELDS: (keyof GameResponseDto)[] = [
+  'gameId', 'providerGameId', 'sport', 'competition', 'team1', 'team2', 'team1Id', 'team2Id', 'score1', 'score2',
+  'sportState', 'status', 'currentTime', 'lastUpdated'
+];
+// These filter or sort on a game's current state, not its state at asOf
+const NOT_WITH_AS_OF = ['status', 'sort', 'dateField', 'from', 'to'];
 
 export class GameController {
   constructor(
     private gameRepository: GameRepository,
-    private eventStore: EventStore
+    private eventStore: EventStore,
+    private sportRegistry: SportRegistry,
+    private pointInTime: PointInTimeService
   ) {}
 
+  // ?status=&sport=&team=&teamId=&from=&to=&dateField=&sort=&fields=&limit=&cursor=&asOf=
   async getAllGames(req: Request, res: Response): Promise<void> {
     try {
-      const games = await this.gameRepository.findAll();
-
-      const gamesDto: GameResponseDto[] = games.map(game => ({
-        gameId: game.gameId,
-        sport: game.sport,
-        team1: game.team1,
-        team2: game.team2,
-        score1: game.score1,
-        score2: game.score2,
-        status: game.status,
-        currentTime: game.currentTime,
-        lastUpdated: game.lastUpdated.toISOString()
-      }));
+      const query = this.parseListQuery(req.query);
 
-      const response: ApiResponse<GameResponseDto[]> = {
+      if (typeof query === 'string') {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: query,
+          timestamp: new Date().toISOString()
+        };
+
+        res.status(400).json(response);
+        return;
+      }
+
+      const asOf = this.parseAsOf(req.query.asOf);
+      const notWithAsOf = asOf instanceof Date
+        ? NOT_WITH_AS_OF.find(name => req.query[name] !== undefined)
+        : undefined;
+
+      if (typeof asOf === 'string' || notWithAsOf) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: typeof asOf === 'string' ? asOf : `${notWithAsOf} can't be combined with asOf`,
+          timestamp: new Date().toISOString()
+        };
+
+        res.status(400).json(response);
+        return;
+      }
+
+      if (asOf) {
+        await this.getAllGamesAsOf(res, query, asOf);
+        return;
+      }
+
+      const requestedFields = query.fields;
+      if (requestedFields) {
+        // The DTO mapping needs lastUpdated
+        query.fields = [...requestedFields, 'lastUpdated'];
+      }
+
+      const page = await this.gameRepository.findPage(query);
+
+      const gamesDto = page.games.map(game => {
+        const dto = toGameResponseDto(game);
+        return requestedFields ? this.pick(dto, requestedFields) : dto;
+      });
+
+      const response: PagedApiResponse<Partial<GameResponseDto>> = {
         success: true,
         data: gamesDto,
+        nextCursor: page.nextCursor,
         timestamp: new Date().toISOString()
       };
 
       res.json(response);
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: error.message,
+          timestamp: new Date().toISOString()
+        };
+
+        res.status(400).json(response);
+        return;
+      }
+
       console.error('Error in getAllGames:', error);
       
       const response: ApiResponse<null> = {
@@ -45,9 +119,45 @@ export class GameController {
     }
   }
 
+  // Replayed from the events recorded by then, with the version it stands at
+  private async getAllGamesAsOf(res: Response, query: GameListQuery, asOf: Date): Promise<void> {
+    const requestedFields = query.fields;
+    const page = await this.pointInTime.getGames(query, asOf);
+
+    const gamesDto = page.games.map(state => {
+      const dto = gameAsOfToResponseDto(state, asOf);
+      return requestedFields
+        ? { ...this.pick(dto, requestedFields), version: dto.version, asOf: dto.asOf }
+        : dto;
+    });
+
+    const response: PagedApiResponse<Partial<GameAsOfResponseDto>> = {
+      success: true,
+      data: gamesDto,
+      nextCursor: page.nextCursor,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  }
+
+  // ?asOf= for the game as it stood then
   async getGameById(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
+      const asOf = this.parseAsOf(req.query.asOf);
+
+      if (typeof asOf === 'string') {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: asOf,
+          timestamp: new Date().toISOString()
+        };
+
+        res.status(400).json(response);
+        return;
+      }
+
       const game = await this.gameRepository.findById(id);
 
       if (!game) {
@@ -61,17 +171,31 @@ export class GameController {
         return;
       }
 
-      const gameDto: GameResponseDto = {
-        gameId: game.gameId,
-        sport: game.sport,
-        team1: game.team1,
-        team2: game.team2,
-        score1: game.score1,
-        score2: game.score2,
-        status: game.status,
-        currentTime: game.currentTime,
-        lastUpdated: game.lastUpdated.toISOString()
-      };
+      if (asOf) {
+        const state = await this.pointInTime.getGame(id, asOf);
+
+        if (!state) {
+          const response: ApiResponse<null> = {
+            success: false,
+            error: `Game '${id}' had not been recorded yet at ${asOf.toISOString()}`,
+            timestamp: new Date().toISOString()
+          };
+
+          res.status(404).json(response);
+          return;
+        }
+
+        const response: ApiResponse<GameAsOfResponseDto> = {
+          success: true,
+          data: gameAsOfToResponseDto(state, asOf),
+          timestamp: new Date().toISOString()
+        };
+
+        res.json(response);
+        return;
+      }
+
+      const gameDto = toGameResponseDto(game);
 
       const response: ApiResponse<GameResponseDto> = {
         success: true,
@@ -111,14 +235,7 @@ export class GameController {
 
       const events = await this.eventStore.getEventsByGameId(id);
 
-      const eventsDto: EventResponseDto[] = events.map(event => ({
-        eventId: event.eventId,
-        eventType: event.eventType,
-        gameId: event.aggregateId,
-        version: event.version,
-        timestamp: event.timestamp.toISOString(),
-        payload: event.payload
-      }));
+      const eventsDto: EventResponseDto[] = events.map(toEventResponseDto);
 
       const response: ApiResponse<{
         game: GameResponseDto;
@@ -127,17 +244,7 @@ export class GameController {
       }> = {
         success: true,
         data: {
-          game: {
-            gameId: game.gameId,
-            sport: game.sport,
-            team1: game.team1,
-            team2: game.team2,
-            score1: game.score1,
-            score2: game.score2,
-            status: game.status,
-            currentTime: game.currentTime,
-            lastUpdated: game.lastUpdated.toISOString()
-          },
+          game: toGameResponseDto(game),
           events: eventsDto,
           totalEvents: events.length
         },
@@ -158,16 +265,62 @@ export class GameController {
     }
   }
 
+  async getGameInstances(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      // Accepts an instance ID (M1~2) as well as the provider ID (M1)
+      const game = await this.gameRepository.findById(id);
+      const providerGameId = game ? (game.providerGameId || game.gameId) : id;
+
+      const instances = await this.gameRepository.findInstances(providerGameId);
+
+      if (instances.length === 0) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: `Game with ID '${id}' not found`,
+          timestamp: new Date().toISOString()
+        };
+
+        res.status(404).json(response);
+        return;
+      }
+
+      const response: ApiResponse<{
+        providerGameId: string;
+        instances: GameResponseDto[];
+      }> = {
+        success: true,
+        data: {
+          providerGameId,
+          instances: instances.map(toGameResponseDto)
+        },
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Error in getGameInstances:', error);
+
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to fetch game instances',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
   async getGamesBySport(req: Request, res: Response): Promise<void> {
     try {
       const { sport } = req.params;
       const sportUpper = sport.toUpperCase();
 
-      const validSports = ['SOCCER', 'TENNIS', 'HOCKEY'];
-      if (!validSports.includes(sportUpper)) {
+      if (!this.sportRegistry.has(sportUpper)) {
         const response: ApiResponse<null> = {
           success: false,
-          error: `Invalid sport. Must be one of: ${validSports.join(', ')}`,
+          error: `Invalid sport. Must be one of: ${this.sportRegistry.getIds().join(', ')}`,
           timestamp: new Date().toISOString()
         };
         
@@ -177,17 +330,7 @@ export class GameController {
 
       const games = await this.gameRepository.findBySport(sportUpper);
 
-      const gamesDto: GameResponseDto[] = games.map(game => ({
-        gameId: game.gameId,
-        sport: game.sport,
-        team1: game.team1,
-        team2: game.team2,
-        score1: game.score1,
-        score2: game.score2,
-        status: game.status,
-        currentTime: game.currentTime,
-        lastUpdated: game.lastUpdated.toISOString()
-      }));
+      const gamesDto: GameResponseDto[] = games.map(toGameResponseDto);
 
       const response: ApiResponse<GameResponseDto[]> = {
         success: true,
@@ -213,17 +356,7 @@ export class GameController {
     try {
       const games = await this.gameRepository.findLiveGames();
 
-      const gamesDto: GameResponseDto[] = games.map(game => ({
-        gameId: game.gameId,
-        sport: game.sport,
-        team1: game.team1,
-        team2: game.team2,
-        score1: game.score1,
-        score2: game.score2,
-        status: game.status,
-        currentTime: game.currentTime,
-        lastUpdated: game.lastUpdated.toISOString()
-      }));
+      const gamesDto: GameResponseDto[] = games.map(toGameResponseDto);
 
       const response: ApiResponse<GameResponseDto[]> = {
         success: true,
@@ -288,4 +421,90 @@ export class GameController {
       res.status(500).json(response);
     }
   }
-}
\ No newline at end of file
+
+  // Returns the query, or what is wrong with it
+  private parseListQuery(params: Request['query']): GameListQuery | string {
+    const text = (name: string): string | undefined => {
+      const value = params[name];
+      return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+    };
+
+    const sport = text('sport')?.toUpperCase();
+    if (sport && !this.sportRegistry.has(sport)) {
+      return `Invalid sport. Must be one of: ${this.sportRegistry.getIds().join(', ')}`;
+    }
+
+    const status = text('status')?.toUpperCase();
+    if (status && !STATUSES.includes(status)) {
+      return `Invalid status. Must be one of: ${STATUSES.join(', ')}`;
+    }
+
+    // createdAt by default: a lastUpdated keyset shifts as games are updated
+    const sortParam = text('sort') || '-createdAt';
+    const sortField = sortParam.replace(/^[-+]/, '') as GameSortField;
+    if (!SORT_FIELDS.includes(sortField)) {
+      return `Invalid sort. Must be one of: ${SORT_FIELDS.map(field => `${field}, -${field}`).join(', ')}`;
+    }
+
+    const dateField = (text('dateField') || sortField) as GameSortField;
+    if (!SORT_FIELDS.includes(dateField)) {
+      return `Invalid dateField. Must be one of: ${SORT_FIELDS.join(', ')}`;
+    }
+
+    const dates: { from?: Date; to?: Date } = {};
+    for (const name of ['from', 'to'] as const) {
+      const value = text(name);
+      if (value) {
+        const date = new Date(value);
+        if (Number.isNaN(date.getTime())) {
+          return `Invalid ${name}: expected an ISO date`;
+        }
+        dates[name] = date;
+      }
+    }
+
+    const fields = text('fields')?.split(',').map(field => field.trim()).filter(Boolean);
+    const unknownField = fields?.find(field => !GAME_FIELDS.includes(field as keyof GameResponseDto));
+    if (unknownField) {
+      return `Invalid field '${unknownField}'. Must be among: ${GAME_FIELDS.join(', ')}`;
+    }
+
+    const limitParam = text('limit');
+    const limit = limitParam === undefined ? DEFAULT_PAGE_SIZE : /^\d+$/.test(limitParam) ? parseInt(limitParam) : NaN;
+    if (Number.isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return `Invalid limit. Must be between 1 and ${MAX_PAGE_SIZE}`;
+    }
+
+    return {
+      sport,
+      status,
+      team: text('team'),
+      teamId: text('teamId'),
+      dateField,
+      ...dates,
+      sort: { field: sortField, direction: sortParam.startsWith('-') ? -1 : 1 },
+      fields,
+      limit,
+      cursor: text('cursor')
+    };
+  }
+
+  // Undefined when absent, an error message when not a date
+  private parseAsOf(value: unknown): Date | undefined | string {
+    if (value === undefined || value === '') {
+      return undefined;
+    }
+
+    const asOf = typeof value === 'string' ? new Date(value) : new Date(NaN);
+    if (Number.isNaN(asOf.getTime())) {
+      return 'Invalid asOf: expected an ISO date';
+    }
+    return asOf;
+  }
+
+  private pick(dto: GameResponseDto, fields: string[]): Partial<GameResponseDto> {
+    return Object.fromEntries(
+      Object.entries(dto).filter(([key]) => fields.includes(key))
+    ) as Partial<GameResponseDto>;
+  }
+}
@@ -0,0 +1,247 @@
+import { Request, Response } from 'express';
+import { GameRepository } from '../../infrastructure/persistence/GameRepository';
+import { EventStore } from '../../infrastructure/persistence/EventStore';
+import { GameEventBus, GameUpdate } from '../../application/events/GameEventBus';
+import { GameResponseDto, ApiResponse, GameStreamMessageDto } from '../dto/GameResponseDto';
+import { toGameResponseDto, gameEntityToResponseDto, toEventResponseDto } from '../mappers/GameMapper';
+
+const HEARTBEAT_INTERVAL = 15000;
+const RECONNECT_DELAY = 3000;
+const CATCH_UP_PAGE_SIZE = 500;
+// Past this, a reconnecting client is told to reload rather than replayed to
+const MAX_CATCH_UP_EVENTS = 5000;
+
+interface StreamFilter {
+  gameId?: string;
+  sports: string[];
+  statuses: string[];
+}
+
+// Pushes committed game events as Server-Sent Events. Each message carries
+// the event and the game as it looks now. The SSE id is the event version
+// (per-game stream) or the global event sequence (all games stream), so a
+// client reconnecting with Last-Event-ID is sent everything it missed first.
+// A client that can't be caught up gets a "reset" message and should reload.
+export class GameStreamController {
+  constructor(
+    private gameRepository: GameRepository,
+    private eventStore: EventStore,
+    private eventBus: GameEventBus
+  ) {}
+
+  async streamGames(req: Request, res: Response): Promise<void> {
+    const filter: StreamFilter = {
+      sports: this.parseList(req.query.sport),
+      statuses: this.parseList(req.query.status)
+    };
+
+    await this.openStream(req, res, filter, async send => {
+      const lastEventId = this.getLastEventId(req);
+      if (!lastEventId) {
+        return;
+      }
+
+      const resumeFrom = await this.resolveSequence(lastEventId);
+      if (resumeFrom === null) {
+        console.warn(`SSE resume: unknown Last-Event-ID '${lastEventId}'`);
+        await this.sendReset(res, 'Unknown Last-Event-ID');
+        return;
+      }
+
+      const snapshots = new Map<string, GameResponseDto | null>();
+      let afterSequence = resumeFrom;
+      let caughtUp = 0;
+
+      for (;;) {
+        const missed = await this.eventStore.getEventsAfterSequence(afterSequence, {
+          sports: filter.sports,
+          limit: CATCH_UP_PAGE_SIZE
+        });
+
+        for (const event of missed) {
+          if (!snapshots.has(event.aggregateId)) {
+            const game = await this.gameRepository.findById(event.aggregateId);
+            snapshots.set(event.aggregateId, game ? toGameResponseDto(game) : null);
+          }
+
+          const gameDto = snapshots.get(event.aggregateId);
+          if (gameDto) {
+            send(event, gameDto);
+          }
+        }
+
+        if (missed.length < CATCH_UP_PAGE_SIZE) {
+          return;
+        }
+
+        afterSequence = missed[missed.length - 1].sequence;
+        caughtUp += missed.length;
+
+        if (caughtUp >= MAX_CATCH_UP_EVENTS) {
+          console.warn(`SSE resume: more than ${MAX_CATCH_UP_EVENTS} events missed since ${resumeFrom}, asking client to reload`);
+          await this.sendReset(res, `More than ${MAX_CATCH_UP_EVENTS} events were missed`);
+          return;
+        }
+      }
+    });
+  }
+
+  async streamGame(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const game = await this.gameRepository.findById(id);
+
+    if (!game) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Game with ID '${id}' not found`,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(404).json(response);
+      return;
+    }
+
+    const filter: StreamFilter = {
+      gameId: id,
+      sports: [],
+      statuses: []
+    };
+
+    await this.openStream(req, res, filter, async send => {
+      const gameDto = toGameResponseDto(game);
+
+      // Current state first, without an id so it doesn't move the resume point
+      res.write(`event: snapshot\ndata: ${JSON.stringify({ game: gameDto })}\n\n`);
+
+      const lastVersion = parseInt(this.getLastEventId(req) || '');
+      if (isNaN(lastVersion)) {
+        return;
+      }
+
+      const missed = await this.eventStore.getEventsAfterVersion(id, lastVersion);
+      missed.forEach(event => send(event, gameDto, lastVersion));
+    });
+  }
+
+  private async openStream(
+    req: Request,
+    res: Response,
+    filter: StreamFilter,
+    catchUp: (send: (event: any, game: GameResponseDto, resumedFrom?: number) => void) => Promise<void>
+  ): Promise<void> {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.write(`retry: ${RECONNECT_DELAY}\n\n`);
+
+    // Highest version sent per game, so catch-up and live updates never repeat
+    const sentVersions = new Map<string, number>();
+
+    const send = (event: any, game: GameResponseDto, resumedFrom?: number) => {
+      const lastSent = sentVersions.get(event.aggregateId) ?? resumedFrom ?? 0;
+      if (event.version <= lastSent || !this.matches(game, filter)) {
+        return;
+      }
+      sentVersions.set(event.aggregateId, event.version);
+
+      const id = filter.gameId
+        ? `${event.version}`
+        : `${event.sequence}`;
+
+      const message: GameStreamMessageDto = {
+        event: toEventResponseDto(event),
+        game
+      };
+
+      res.write(`id: ${id}\nevent: game-event\ndata: ${JSON.stringify(message)}\n\n`);
+    };
+
+    // Live updates that arrive during catch-up are held back until it finishes
+    let pending: GameUpdate[] | null = [];
+
+    const sendUpdate = (update: GameUpdate) => {
+      const gameDto = gameEntityToResponseDto(update.game);
+      update.events.forEach(event => send(event, gameDto));
+    };
+
+    const unsubscribe = this.eventBus.subscribe(update => {
+      if (pending) {
+        pending.push(update);
+      } else {
+        sendUpdate(update);
+      }
+    });
+
+    const heartbeat = setInterval(() => {
+      res.write(': ping\n\n');
+    }, HEARTBEAT_INTERVAL);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+
+    try {
+      await catchUp(send);
+    } catch (error) {
+      console.error('Error catching up SSE client:', error);
+    }
+
+    const queued = pending;
+    pending = null;
+    queued.forEach(sendUpdate);
+  }
+
+  // The all-games stream used "<gameId>:<version>" ids before it had sequences
+  private async resolveSequence(lastEventId: string): Promise<number | null> {
+    if (/^\d+$/.test(lastEventId)) {
+      return parseInt(lastEventId);
+    }
+
+    const separator = lastEventId.lastIndexOf(':');
+    const version = parseInt(lastEventId.slice(separator + 1));
+    if (separator <= 0 || isNaN(version)) {
+      return null;
+    }
+
+    const lastEvent = await this.eventStore.getEvent(lastEventId.slice(0, separator), version);
+    return lastEvent?.sequence ?? null;
+  }
+
+  // Moves the client's Last-Event-ID to now: what it missed has to come from the REST API
+  private async sendReset(res: Response, reason: string): Promise<void> {
+    const latest = await this.eventStore.getLatestSequence();
+    res.write(`id: ${latest}\nevent: reset\ndata: ${JSON.stringify({ reason })}\n\n`);
+  }
+
+  private matches(game: GameResponseDto, filter: StreamFilter): boolean {
+    if (filter.gameId && game.gameId !== filter.gameId) {
+      return false;
+    }
+    if (filter.sports.length > 0 && !filter.sports.includes(game.sport)) {
+      return false;
+    }
+    if (filter.statuses.length > 0 && !filter.statuses.includes(game.status)) {
+      return false;
+    }
+    return true;
+  }
+
+  private getLastEventId(req: Request): string | undefined {
+    // Browsers send the header on reconnect; the query parameter allows
+    // resuming from a fresh EventSource
+    const header = req.header('Last-Event-ID');
+    const query = typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined;
+    return header || query;
+  }
+
+  private parseList(value: unknown): string[] {
+    if (typeof value !== 'string' || value.trim() === '') {
+      return [];
+    }
+    return value.split(',').map(item => item.trim().toUpperCase());
+  }
+}
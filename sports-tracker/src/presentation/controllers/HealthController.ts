@@ -0,0 +1,81 @@
+import { Request, Response } from 'express';
+import { SourceHealthTracker, SourceHealth } from '../../application/services/SourceHealthTracker';
+import { checkDatabase, DatabaseHealth } from '../../database';
+import { ApiResponse } from '../dto/GameResponseDto';
+
+export interface ReadinessReport {
+  ready: boolean;
+  // Why the instance is not ready, empty when it is
+  reasons: string[];
+  mongo: DatabaseHealth;
+  sources: SourceHealth[];
+}
+
+export class HealthController {
+  constructor(private sourceHealth: SourceHealthTracker) {}
+
+  // The process is up and serving requests; dependencies are not checked
+  live(req: Request, res: Response): void {
+    const response: ApiResponse<{ status: string; uptimeSeconds: number }> = {
+      success: true,
+      data: {
+        status: 'ok',
+        uptimeSeconds: Math.floor(process.uptime())
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  }
+
+  // 503 when Mongo is unreachable or a source's data is older than its
+  // threshold, so traffic can be routed to another instance
+  async ready(req: Request, res: Response): Promise<void> {
+    try {
+      const report = await this.buildReport();
+
+      const response: ApiResponse<ReadinessReport> = {
+        success: report.ready,
+        data: report,
+        ...(!report.ready && { error: `Not ready: ${report.reasons.join('; ')}` }),
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(report.ready ? 200 : 503).json(response);
+    } catch (error) {
+      console.error('Error in ready:', error);
+
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to check readiness',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(503).json(response);
+    }
+  }
+
+  private async buildReport(): Promise<ReadinessReport> {
+    const mongo = await checkDatabase();
+    const sources = this.sourceHealth.getReport();
+    const reasons: string[] = [];
+
+    if (!mongo.connected) {
+      reasons.push(`mongo: ${mongo.error}`);
+    }
+
+    sources
+      .filter(source => source.stale)
+      .forEach(source => {
+        const lastError = source.lastError ? `, last error ${source.lastError.kind}` : '';
+        reasons.push(`${source.sport}: data ${Math.round(source.dataAgeMs / 1000)}s old${lastError}`);
+      });
+
+    return {
+      ready: reasons.length === 0,
+      reasons,
+      mongo,
+      sources
+    };
+  }
+}
@@ -0,0 +1,75 @@
+import { Response } from 'express';
+import { IngestService, IngestResult } from '../../application/services/IngestService';
+import { SportRegistry } from '../../config/sports';
+import { ApiResponse } from '../dto/GameResponseDto';
+import { RawBodyRequest } from '../middleware/webhookSignature';
+
+const MAX_KEY_LENGTH = 255;
+
+export class IngestController {
+  constructor(
+    private ingestService: IngestService,
+    private sportRegistry: SportRegistry
+  ) {}
+
+  // Runs after requireWebhookSignature, so the sport and body are known good
+  async ingest(req: RawBodyRequest, res: Response): Promise<void> {
+    const fail = (status: number, error: string, data?: IngestResult) => {
+      const response: ApiResponse<IngestResult> = {
+        success: false,
+        data,
+        error,
+        timestamp: new Date().toISOString()
+      };
+      res.status(status).json(response);
+    };
+
+    try {
+      const sport = this.sportRegistry.get(String(req.params.sport))!;
+      const idempotencyKey = req.get('Idempotency-Key');
+
+      if (!idempotencyKey || idempotencyKey.length > MAX_KEY_LENGTH) {
+        fail(400, `Idempotency-Key header is required (up to ${MAX_KEY_LENGTH} characters)`);
+        return;
+      }
+
+      const outcome = await this.ingestService.ingest(
+        sport.id,
+        idempotencyKey,
+        req.rawBody!,
+        req.body,
+        req.signedAt!
+      );
+
+      switch (outcome.kind) {
+        case 'INVALID_PAYLOAD':
+          fail(400, 'No valid records; rejected ones are quarantined', outcome.result);
+          return;
+        case 'IN_PROGRESS':
+          fail(409, 'A request with this Idempotency-Key is being processed');
+          return;
+        case 'KEY_REUSED':
+          fail(422, 'Idempotency-Key was already used with a different body');
+          return;
+        case 'FAILED':
+          fail(500, 'Some games could not be recorded, retry with the same Idempotency-Key', outcome.result);
+          return;
+      }
+
+      if (outcome.kind === 'REPLAYED') {
+        res.set('Idempotent-Replayed', 'true');
+      }
+
+      const response: ApiResponse<IngestResult> = {
+        success: true,
+        data: outcome.result,
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Error in ingest:', error);
+      fail(500, 'Failed to ingest payload');
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import { Request, Response } from 'express';
+import { QuarantineService } from '../../application/services/QuarantineService';
+import { GameSyncResult } from '../../application/services/GameSyncService';
+import { QuarantineStatus } from '../../infrastructure/persistence/schemas/QuarantineSchema';
+import { QuarantineEntryDto, ApiResponse } from '../dto/GameResponseDto';
+import { toQuarantineEntryDto } from '../mappers/QuarantineMapper';
+
+const STATUSES: QuarantineStatus[] = ['QUARANTINED', 'REPROCESSED'];
+const MAX_LIMIT = 500;
+
+export class QuarantineController {
+  constructor(private quarantineService: QuarantineService) {}
+
+  // ?sport=&status=&limit= (status defaults to QUARANTINED, ALL for both)
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      const sport = typeof req.query.sport === 'string' ? req.query.sport.toUpperCase() : undefined;
+      const status = typeof req.query.status === 'string' ? req.query.status.toUpperCase() : 'QUARANTINED';
+      const limit = Math.min(parseInt(String(req.query.limit || '50')) || 50, MAX_LIMIT);
+
+      if (status !== 'ALL' && !STATUSES.includes(status as QuarantineStatus)) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: `status must be one of: ${[...STATUSES, 'ALL'].join(', ')}`,
+          timestamp: new Date().toISOString()
+        };
+
+        res.status(400).json(response);
+        return;
+      }
+
+      const entries = await this.quarantineService.list({
+        sport,
+        status: status === 'ALL' ? undefined : status as QuarantineStatus,
+        limit
+      });
+
+      const response: ApiResponse<QuarantineEntryDto[]> = {
+        success: true,
+        data: entries.map(entry => toQuarantineEntryDto(entry)),
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Error in list quarantine:', error);
+
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to list quarantined records',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  async get(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const entry = await this.quarantineService.get(id);
+
+      if (!entry) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: `Quarantined record '${id}' not found`,
+          timestamp: new Date().toISOString()
+        };
+
+        res.status(404).json(response);
+        return;
+      }
+
+      const response: ApiResponse<QuarantineEntryDto> = {
+        success: true,
+        data: toQuarantineEntryDto(entry, true),
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Error in get quarantine:', error);
+
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to fetch quarantined record',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  async reprocess(req: Request, res: Response): Promise<void> {
+    const fail = (status: number, error: string) => {
+      const response: ApiResponse<null> = {
+        success: false,
+        error,
+        timestamp: new Date().toISOString()
+      };
+      res.status(status).json(response);
+    };
+
+    try {
+      const { id } = req.params;
+      const outcome = await this.quarantineService.reprocess(id);
+
+      switch (outcome.kind) {
+        case 'NOT_FOUND':
+          fail(404, `Quarantined record '${id}' not found`);
+          return;
+        case 'ALREADY_REPROCESSED':
+          fail(409, 'Record was already reprocessed');
+          return;
+        case 'SPORT_DISABLED':
+          fail(409, 'Sport is disabled, nothing can map the record');
+          return;
+        case 'STILL_INVALID':
+          fail(422, `Record is still invalid: ${outcome.reason}`);
+          return;
+        case 'FAILED':
+          fail(500, `Failed to record the game: ${outcome.game.error}`);
+          return;
+      }
+
+      const response: ApiResponse<GameSyncResult> = {
+        success: true,
+        data: outcome.game,
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Error in reprocess quarantine:', error);
+      fail(500, 'Failed to reprocess record');
+    }
+  }
+}
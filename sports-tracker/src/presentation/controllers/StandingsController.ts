@@ -0,0 +1,88 @@
+import { Request, Response } from 'express';
+import { StandingsService } from '../../application/services/StandingsService';
+import { StandingsTableDto, ApiResponse } from '../dto/GameResponseDto';
+import { toStandingsTableDto } from '../mappers/StandingsMapper';
+import { SportRegistry } from '../../config/sports';
+
+export class StandingsController {
+  constructor(
+    private standingsService: StandingsService,
+    private sportRegistry: SportRegistry
+  ) {}
+
+  // ?sport= (required) &competition= (all of the sport's when omitted)
+  async getStandings(req: Request, res: Response): Promise<void> {
+    try {
+      const sport = typeof req.query.sport === 'string' ? req.query.sport.toUpperCase() : '';
+      const competition = typeof req.query.competition === 'string' && req.query.competition !== ''
+        ? req.query.competition
+        : undefined;
+
+      if (!this.sportRegistry.has(sport)) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: `sport is required. Must be one of: ${this.sportRegistry.getIds().join(', ')}`,
+          timestamp: new Date().toISOString()
+        };
+
+        res.status(400).json(response);
+        return;
+      }
+
+      if (!this.standingsService.hasStandings(sport)) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: `${sport} has no standings`,
+          timestamp: new Date().toISOString()
+        };
+
+        res.status(404).json(response);
+        return;
+      }
+
+      const tables = await this.standingsService.getTables(sport, competition);
+
+      const response: ApiResponse<StandingsTableDto[]> = {
+        success: true,
+        data: tables.map(table => toStandingsTableDto(table)),
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Error in getStandings:', error);
+
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to fetch standings',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  async rebuild(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await this.standingsService.rebuild();
+
+      const response: ApiResponse<{ counted: number }> = {
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Error in rebuild standings:', error);
+
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to rebuild standings',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(500).json(response);
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import { Request, Response } from 'express';
+import { TeamService } from '../../application/services/TeamService';
+import { InvalidCursorError } from '../../infrastructure/persistence/GameRepository';
+import { SportRegistry } from '../../config/sports';
+import {
+  TeamResponseDto,
+  HeadToHeadResponseDto,
+  GameResponseDto,
+  ApiResponse,
+  PagedApiResponse
+} from '../dto/GameResponseDto';
+import { toTeamResponseDto, toHeadToHeadResponseDto } from '../mappers/TeamMapper';
+import { toGameResponseDto } from '../mappers/GameMapper';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const MAX_TEAMS = 500;
+const DEFAULT_RECENT = 5;
+const MAX_RECENT = 50;
+const STATUSES = ['SCHEDULED', 'LIVE', 'FINISHED'];
+
+export class TeamController {
+  constructor(
+    private teamService: TeamService,
+    private sportRegistry: SportRegistry
+  ) {}
+
+  private fail(res: Response, status: number, error: string): void {
+    const response: ApiResponse<null> = {
+      success: false,
+      error,
+      timestamp: new Date().toISOString()
+    };
+    res.status(status).json(response);
+  }
+
+  // ?sport=&limit=
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      const sport = typeof req.query.sport === 'string' ? req.query.sport.toUpperCase() : undefined;
+      const limit = Math.min(parseInt(String(req.query.limit || MAX_TEAMS)) || MAX_TEAMS, MAX_TEAMS);
+
+      if (sport && !this.sportRegistry.has(sport)) {
+        this.fail(res, 400, `Invalid sport. Must be one of: ${this.sportRegistry.getIds().join(', ')}`);
+        return;
+      }
+
+      const teams = await this.teamService.list({ sport, limit });
+
+      const response: ApiResponse<TeamResponseDto[]> = {
+        success: true,
+        data: teams.map(team => toTeamResponseDto(team)),
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Error in list teams:', error);
+      this.fail(res, 500, 'Failed to fetch teams');
+    }
+  }
+
+  async getById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const team = await this.teamService.get(id);
+
+      if (!team) {
+        this.fail(res, 404, `Team with ID '${id}' not found`);
+        return;
+      }
+
+      const response: ApiResponse<TeamResponseDto> = {
+        success: true,
+        data: toTeamResponseDto(team),
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Error in getTeamById:', error);
+      this.fail(res, 500, 'Failed to fetch team');
+    }
+  }
+
+  // ?status=&limit=&cursor=, most recently updated first
+  async getGames(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const status = typeof req.query.status === 'string' ? req.query.status.toUpperCase() : undefined;
+      const limit = req.query.limit === undefined ? DEFAULT_PAGE_SIZE : parseInt(String(req.query.limit));
+
+      if (status && !STATUSES.includes(status)) {
+        this.fail(res, 400, `Invalid status. Must be one of: ${STATUSES.join(', ')}`);
+        return;
+      }
+      if (Number.isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+        this.fail(res, 400, `Invalid limit. Must be between 1 and ${MAX_PAGE_SIZE}`);
+        return;
+      }
+
+      const page = await this.teamService.getGames(id, {
+        status,
+        limit,
+        cursor: typeof req.query.cursor === 'string' ? req.query.cursor : undefined
+      });
+
+      if (!page) {
+        this.fail(res, 404, `Team with ID '${id}' not found`);
+        return;
+      }
+
+      const response: PagedApiResponse<GameResponseDto> = {
+        success: true,
+        data: page.games.map(game => toGameResponseDto(game)),
+        nextCursor: page.nextCursor,
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        this.fail(res, 400, error.message);
+        return;
+      }
+
+      console.error('Error in getTeamGames:', error);
+      this.fail(res, 500, 'Failed to fetch team games');
+    }
+  }
+
+  // ?recent= number of latest results to include
+  async headToHead(req: Request, res: Response): Promise<void> {
+    try {
+      const { a, b } = req.params;
+      const recent = Math.min(parseInt(String(req.query.recent ?? DEFAULT_RECENT)) || DEFAULT_RECENT, MAX_RECENT);
+
+      if (a === b) {
+        this.fail(res, 400, 'Head-to-head needs two different teams');
+        return;
+      }
+
+      const headToHead = await this.teamService.headToHead(a, b, recent);
+
+      if (!headToHead) {
+        this.fail(res, 404, `Team '${a}' or '${b}' not found`);
+        return;
+      }
+
+      const response: ApiResponse<HeadToHeadResponseDto> = {
+        success: true,
+        data: toHeadToHeadResponseDto(headToHead),
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Error in headToHead:', error);
+      this.fail(res, 500, 'Failed to fetch head-to-head');
+    }
+  }
+}
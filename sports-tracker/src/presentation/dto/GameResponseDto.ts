@@ -1,24 +1,47 @@
+import { SportStateJSON } from '../../domain/value-objects/SportState';
+
 export interface GameResponseDto {
   gameId: string;
+  providerGameId: string;
   sport: string;
+  competition?: string;
   team1: string;
   team2: string;
+  // Team registry IDs (GET /api/teams); absent until the names are resolved
+  team1Id?: string;
+  team2Id?: string;
   score1: number;
   score2: number;
+  // Sport-specific detail, e.g. { kind: 'TENNIS', sets, points, server, ... }
+  sportState?: SportStateJSON;
   status: string;
   currentTime: string;
   lastUpdated: string;
 }
 
+// A game as it stood at asOf, replayed from the events recorded by then
+export interface GameAsOfResponseDto extends GameResponseDto {
+  // Version of the last event applied
+  version: number;
+  asOf: string;
+}
+
 export interface EventResponseDto {
   eventId: string;
   eventType: string;
   gameId: string;
   version: number;
+  // Position across all games (GET /api/events)
+  sequence?: number;
   timestamp: string;
   payload: any;
 }
 
+export interface GameStreamMessageDto {
+  event: EventResponseDto;
+  game: GameResponseDto;
+}
+
 export interface StatsResponseDto {
   totalGames: number;
   byStatus: {
@@ -30,9 +53,96 @@ export interface StatsResponseDto {
   totalEvents: number;
 }
 
+export interface QuarantineEntryDto {
+  id: string;
+  sport: string;
+  source: string;
+  providerGameId?: string;
+  reason: string;
+  status: string;
+  occurrences: number;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  reprocessedAt?: string;
+  reprocessedGameId?: string;
+  // The record as received; only on GET /api/admin/quarantine/:id
+  payload?: any;
+}
+
+export interface TeamResponseDto {
+  teamId: string;
+  sport: string;
+  name: string;
+  // Spellings each source uses, including the name itself
+  aliases: { source: string; name: string }[];
+}
+
+export interface HeadToHeadResponseDto {
+  teams: TeamResponseDto[];
+  // Over finished games; wins are keyed by teamId
+  record: {
+    played: number;
+    wins: { [teamId: string]: number };
+    draws: number;
+  };
+  recent: GameResponseDto[];
+}
+
+export interface StandingsRowDto {
+  rank: number;
+  teamId: string;
+  name?: string;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  // Also counted in lost
+  overtimeLosses: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifference: number;
+  points: number;
+}
+
+export interface StandingsTableDto {
+  sport: string;
+  competition: string;
+  // STANDINGS_RULES entry, e.g. THREE_ONE_ZERO
+  rule: string;
+  tieBreakers: string[];
+  rows: StandingsRowDto[];
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
   timestamp: string;
-}
\ No newline at end of file
+}
+
+// WebSocket message envelope (see README "WebSocket API")
+
+export type SocketClientMessage =
+  | { type: 'subscribe'; topics: string[]; requestId?: string }
+  | { type: 'unsubscribe'; topics: string[]; requestId?: string }
+  | { type: 'ping'; requestId?: string };
+
+export type SocketServerMessage =
+  | { type: 'welcome'; heartbeatInterval: number; timestamp: string }
+  | { type: 'subscribed'; topics: string[]; requestId?: string; timestamp: string }
+  | { type: 'unsubscribed'; topics: string[]; requestId?: string; timestamp: string }
+  | { type: 'pong'; requestId?: string; timestamp: string }
+  | { type: 'event'; topic: string; data: GameStreamMessageDto; timestamp: string }
+  | { type: 'error'; error: string; requestId?: string; timestamp: string };
+
+export interface EventFeedResponse extends ApiResponse<EventResponseDto[]> {
+  // Pass as ?cursor= for what was recorded after this page; kept when
+  // nothing new matched, so it can be polled
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export interface PagedApiResponse<T> extends ApiResponse<T[]> {
+  // Pass as ?cursor= for the next page; null on the last one
+  nextCursor: string | null;
+}
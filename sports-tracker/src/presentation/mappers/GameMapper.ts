@@ -0,0 +1,48 @@
+import { Game } from '../../domain/entities/Game';
+import { GameAsOf } from '../../application/services/PointInTimeService';
+import { GameResponseDto, GameAsOfResponseDto, EventResponseDto } from '../dto/GameResponseDto';
+
+// Maps a stored game snapshot (games collection) to its API shape
+export function toGameResponseDto(game: any): GameResponseDto {
+  return {
+    gameId: game.gameId,
+    providerGameId: game.providerGameId || game.gameId,
+    sport: game.sport,
+    competition: game.competition,
+    team1: game.team1,
+    team2: game.team2,
+    team1Id: game.team1Id,
+    team2Id: game.team2Id,
+    score1: game.score1,
+    score2: game.score2,
+    sportState: game.sportState,
+    status: game.status,
+    currentTime: game.currentTime,
+    lastUpdated: game.lastUpdated.toISOString()
+  };
+}
+
+// Maps a Game aggregate (polled or replayed) to its API shape
+export function gameEntityToResponseDto(game: Game): GameResponseDto {
+  return toGameResponseDto(game.toObject());
+}
+
+export function gameAsOfToResponseDto(state: GameAsOf, asOf: Date): GameAsOfResponseDto {
+  return {
+    ...gameEntityToResponseDto(state.game),
+    version: state.version,
+    asOf: asOf.toISOString()
+  };
+}
+
+export function toEventResponseDto(event: any): EventResponseDto {
+  return {
+    eventId: event.eventId,
+    eventType: event.eventType,
+    gameId: event.aggregateId,
+    version: event.version,
+    sequence: event.sequence,
+    timestamp: event.timestamp.toISOString(),
+    payload: event.payload
+  };
+}
@@ -0,0 +1,19 @@
+import { IQuarantineDocument } from '../../infrastructure/persistence/schemas/QuarantineSchema';
+import { QuarantineEntryDto } from '../dto/GameResponseDto';
+
+export function toQuarantineEntryDto(entry: IQuarantineDocument, withPayload: boolean = false): QuarantineEntryDto {
+  return {
+    id: String(entry._id),
+    sport: entry.sport,
+    source: entry.source,
+    providerGameId: entry.providerGameId,
+    reason: entry.reason,
+    status: entry.status,
+    occurrences: entry.occurrences,
+    firstSeenAt: entry.firstSeenAt.toISOString(),
+    lastSeenAt: entry.lastSeenAt.toISOString(),
+    reprocessedAt: entry.reprocessedAt?.toISOString(),
+    reprocessedGameId: entry.reprocessedGameId,
+    ...(withPayload && { payload: entry.payload })
+  };
+}
@@ -0,0 +1,25 @@
+import { StandingsTable } from '../../application/services/StandingsService';
+import { StandingsTableDto } from '../dto/GameResponseDto';
+
+export function toStandingsTableDto(table: StandingsTable): StandingsTableDto {
+  return {
+    sport: table.sport,
+    competition: table.competition,
+    rule: table.rule,
+    tieBreakers: table.tieBreakers,
+    rows: table.rows.map(row => ({
+      rank: row.rank,
+      teamId: row.teamId,
+      name: row.name,
+      played: row.played,
+      won: row.won,
+      drawn: row.drawn,
+      lost: row.lost,
+      overtimeLosses: row.overtimeLosses,
+      goalsFor: row.goalsFor,
+      goalsAgainst: row.goalsAgainst,
+      goalDifference: row.goalsFor - row.goalsAgainst,
+      points: row.points
+    }))
+  };
+}
@@ -0,0 +1,16 @@
+import { Team } from '../../domain/entities/Team';
+import { HeadToHead } from '../../application/services/TeamService';
+import { TeamResponseDto, HeadToHeadResponseDto } from '../dto/GameResponseDto';
+import { toGameResponseDto } from './GameMapper';
+
+export function toTeamResponseDto(team: Team): TeamResponseDto {
+  return team.toObject();
+}
+
+export function toHeadToHeadResponseDto(headToHead: HeadToHead): HeadToHeadResponseDto {
+  return {
+    teams: headToHead.teams.map(team => toTeamResponseDto(team)),
+    record: headToHead.record,
+    recent: headToHead.recent.map(game => toGameResponseDto(game))
+  };
+}
@@ -0,0 +1,35 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { ApiResponse } from '../dto/GameResponseDto';
+
+// Checks Authorization: Bearer <ADMIN_TOKEN>. Without a configured token
+// the admin API is off.
+export function requireAdminToken(adminToken?: string) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const reject = (status: number, error: string) => {
+      const response: ApiResponse<null> = {
+        success: false,
+        error,
+        timestamp: new Date().toISOString()
+      };
+      res.status(status).json(response);
+    };
+
+    if (!adminToken) {
+      reject(404, 'The admin API is disabled, set ADMIN_TOKEN to enable it');
+      return;
+    }
+
+    const presented = Buffer.from(req.get('Authorization') || '');
+    const expected = Buffer.from(`Bearer ${adminToken}`);
+
+    // timingSafeEqual throws on a length mismatch
+    if (presented.length !== expected.length || !crypto.timingSafeEqual(presented, expected)) {
+      res.set('WWW-Authenticate', 'Bearer');
+      reject(401, 'A valid admin token is required');
+      return;
+    }
+
+    next();
+  };
+}
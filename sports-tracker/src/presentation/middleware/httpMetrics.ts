@@ -0,0 +1,20 @@
+import { Request, Response, NextFunction } from 'express';
+import { httpRequests, httpRequestDuration } from '../../infrastructure/metrics/metrics';
+
+// Labels by route pattern (/api/games/:id), never the raw path, so game IDs
+// don't end up as series. Requests that match no route share one label.
+export function httpMetrics(req: Request, res: Response, next: NextFunction): void {
+  const stopTimer = httpRequestDuration.startTimer();
+
+  res.on('finish', () => {
+    const route = req.route
+      ? `${req.baseUrl}${req.route.path === '/' ? '' : req.route.path}` || '/'
+      : 'unmatched';
+    const labels = { method: req.method, route };
+
+    stopTimer(labels);
+    httpRequests.inc({ ...labels, status: String(res.statusCode) });
+  });
+
+  next();
+}
@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Request, Response, NextFunction } from 'express';
+import { SportRegistry } from '../../config/sports';
+import { ApiResponse } from '../dto/GameResponseDto';
+
+export const SIGNATURE_HEADER = 'x-signature-256';
+export const TIMESTAMP_HEADER = 'x-signature-timestamp';
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+  // The verified X-Signature-Timestamp
+  signedAt?: Date;
+}
+
+// express.json() verify hook: keeps the bytes the signature was computed on
+export function captureRawBody(req: IncomingMessage, res: ServerResponse, buffer: Buffer): void {
+  (req as RawBodyRequest).rawBody = buffer;
+}
+
+// The timestamp and key are signed with the body, so a captured request
+// can't be replayed later or under another Idempotency-Key
+export function signPayload(
+  secret: string,
+  timestamp: string,
+  idempotencyKey: string,
+  body: Buffer | string
+): string {
+  const hmac = crypto.createHmac('sha256', secret)
+    .update(`${timestamp}.${idempotencyKey}.`)
+    .update(body);
+  return `sha256=${hmac.digest('hex')}`;
+}
+
+// Checks X-Signature-256: sha256=<hex HMAC-SHA256 of
+// "<X-Signature-Timestamp>.<Idempotency-Key>.<raw body>"> with the sport's
+// <ID>_WEBHOOK_SECRET. The timestamp (Unix seconds) must be within
+// toleranceSeconds of now.
+export function requireWebhookSignature(sportRegistry: SportRegistry, toleranceSeconds: number = 300) {
+  return (req: RawBodyRequest, res: Response, next: NextFunction): void => {
+    const reject = (status: number, error: string) => {
+      const response: ApiResponse<null> = {
+        success: false,
+        error,
+        timestamp: new Date().toISOString()
+      };
+      res.status(status).json(response);
+    };
+
+    const sport = sportRegistry.get(String(req.params.sport));
+    if (!sport || !sport.enabled || !sport.webhookSecret) {
+      reject(404, `Ingestion is not enabled for ${req.params.sport}`);
+      return;
+    }
+
+    if (!req.rawBody) {
+      reject(415, 'Expected a JSON body');
+      return;
+    }
+
+    const timestamp = req.get(TIMESTAMP_HEADER) || '';
+    const signedAt = /^\d+$/.test(timestamp) ? parseInt(timestamp) : NaN;
+    if (isNaN(signedAt) || Math.abs(Date.now() / 1000 - signedAt) > toleranceSeconds) {
+      reject(401, `X-Signature-Timestamp must be a Unix time within ${toleranceSeconds}s of now`);
+      return;
+    }
+
+    const signature = Buffer.from(req.get(SIGNATURE_HEADER) || '');
+    const expected = Buffer.from(
+      signPayload(sport.webhookSecret, timestamp, req.get(IDEMPOTENCY_KEY_HEADER) || '', req.rawBody)
+    );
+
+    // timingSafeEqual throws on a length mismatch
+    const valid = signature.length === expected.length && crypto.timingSafeEqual(signature, expected);
+
+    if (!valid) {
+      reject(401, 'Invalid signature');
+      return;
+    }
+
+    req.signedAt = new Date(signedAt * 1000);
+    next();
+  };
+}
@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { AdminController } from '../controllers/AdminController';
+import { QuarantineController } from '../controllers/QuarantineController';
+import { StandingsController } from '../controllers/StandingsController';
+import { GameRebuildService } from '../../application/services/GameRebuildService';
+import { QuarantineService } from '../../application/services/QuarantineService';
+import { StandingsService } from '../../application/services/StandingsService';
+import { SportRegistry } from '../../config/sports';
+import { requireAdminToken } from '../middleware/adminToken';
+
+export function createAdminRoutes(
+  rebuildService: GameRebuildService,
+  quarantineService: QuarantineService,
+  standingsService: StandingsService,
+  sportRegistry: SportRegistry,
+  adminToken?: string
+): Router {
+  const router = Router();
+  const controller = new AdminController(rebuildService);
+  const quarantineController = new QuarantineController(quarantineService);
+  const standingsController = new StandingsController(standingsService, sportRegistry);
+
+  // Everything here rewrites data or shows raw provider payloads
+  router.use(requireAdminToken(adminToken));
+
+  router.post('/rebuild', (req, res) => controller.rebuildAll(req, res));
+
+  router.post('/rebuild/:id', (req, res) => controller.rebuildGame(req, res));
+
+  router.get('/drift', (req, res) => controller.getDriftReport(req, res));
+
+  router.get('/quarantine', (req, res) => quarantineController.list(req, res));
+
+  router.get('/quarantine/:id', (req, res) => quarantineController.get(req, res));
+
+  router.post('/quarantine/:id/reprocess', (req, res) => quarantineController.reprocess(req, res));
+
+  router.post('/standings/rebuild', (req, res) => standingsController.rebuild(req, res));
+
+  return router;
+}
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { EventController } from '../controllers/EventController';
+import { EventStore } from '../../infrastructure/persistence/EventStore';
+import { SportRegistry } from '../../config/sports';
+
+export function createEventRoutes(
+  eventStore: EventStore,
+  sportRegistry: SportRegistry
+): Router {
+  const router = Router();
+  const controller = new EventController(eventStore, sportRegistry);
+
+  router.get('/', (req, res) => controller.getFeed(req, res));
+
+  return router;
+}
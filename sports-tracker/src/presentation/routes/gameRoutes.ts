@@ -1,24 +1,38 @@
 import { Router } from 'express';
 import { GameController } from '../controllers/GameController';
+import { GameStreamController } from '../controllers/GameStreamController';
 import { GameRepository } from '../../infrastructure/persistence/GameRepository';
 import { EventStore } from '../../infrastructure/persistence/EventStore';
+import { GameEventBus } from '../../application/events/GameEventBus';
+import { PointInTimeService } from '../../application/services/PointInTimeService';
+import { SportRegistry } from '../../config/sports';
 
 export function createGameRoutes(
   gameRepository: GameRepository,
-  eventStore: EventStore
+  eventStore: EventStore,
+  eventBus: GameEventBus,
+  sportRegistry: SportRegistry
 ): Router {
   const router = Router();
-  const controller = new GameController(gameRepository, eventStore);
+  const pointInTime = new PointInTimeService(eventStore, gameRepository);
+  const controller = new GameController(gameRepository, eventStore, sportRegistry, pointInTime);
+  const streamController = new GameStreamController(gameRepository, eventStore, eventBus);
 
   router.get('/', (req, res) => controller.getAllGames(req, res));
 
   router.get('/live', (req, res) => controller.getLiveGames(req, res));
 
+  router.get('/stream', (req, res) => streamController.streamGames(req, res));
+
   router.get('/sport/:sport', (req, res) => controller.getGamesBySport(req, res));
 
   router.get('/:id', (req, res) => controller.getGameById(req, res));
 
   router.get('/:id/events', (req, res) => controller.getGameEvents(req, res));
 
+  router.get('/:id/instances', (req, res) => controller.getGameInstances(req, res));
+
+  router.get('/:id/stream', (req, res) => streamController.streamGame(req, res));
+
   return router;
 }
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { HealthController } from '../controllers/HealthController';
+import { SourceHealthTracker } from '../../application/services/SourceHealthTracker';
+
+export function createHealthRoutes(
+  sourceHealth: SourceHealthTracker
+): Router {
+  const router = Router();
+  const controller = new HealthController(sourceHealth);
+
+  // Full report; same checks as readiness
+  router.get('/', (req, res) => controller.ready(req, res));
+
+  router.get('/live', (req, res) => controller.live(req, res));
+
+  router.get('/ready', (req, res) => controller.ready(req, res));
+
+  return router;
+}
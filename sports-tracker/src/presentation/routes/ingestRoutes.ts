@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { IngestController } from '../controllers/IngestController';
+import { IngestService } from '../../application/services/IngestService';
+import { SportRegistry } from '../../config/sports';
+import { requireWebhookSignature } from '../middleware/webhookSignature';
+
+// Expects the body parsed with captureRawBody (see server.ts), as the
+// signature covers the raw bytes
+export function createIngestRoutes(
+  ingestService: IngestService,
+  sportRegistry: SportRegistry,
+  signatureToleranceSeconds?: number
+): Router {
+  const router = Router();
+  const controller = new IngestController(ingestService, sportRegistry);
+
+  router.post(
+    '/:sport',
+    requireWebhookSignature(sportRegistry, signatureToleranceSeconds),
+    (req, res) => controller.ingest(req, res)
+  );
+
+  return router;
+}
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { metricsRegistry } from '../../infrastructure/metrics/metrics';
+
+export function createMetricsRoutes(): Router {
+  const router = Router();
+
+  // Prometheus text format, not the ApiResponse envelope
+  router.get('/', async (req, res) => {
+    try {
+      res.set('Content-Type', metricsRegistry.contentType);
+      res.send(await metricsRegistry.metrics());
+    } catch (error) {
+      console.error('Error collecting metrics:', error);
+      res.status(500).send('Failed to collect metrics');
+    }
+  });
+
+  return router;
+}
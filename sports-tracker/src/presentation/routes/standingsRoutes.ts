@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { StandingsController } from '../controllers/StandingsController';
+import { StandingsService } from '../../application/services/StandingsService';
+import { SportRegistry } from '../../config/sports';
+
+export function createStandingsRoutes(
+  standingsService: StandingsService,
+  sportRegistry: SportRegistry
+): Router {
+  const router = Router();
+  const controller = new StandingsController(standingsService, sportRegistry);
+
+  router.get('/', (req, res) => controller.getStandings(req, res));
+
+  return router;
+}
@@ -2,13 +2,21 @@ import { Router } from 'express';
 import { GameController } from '../controllers/GameController';
 import { GameRepository } from '../../infrastructure/persistence/GameRepository';
 import { EventStore } from '../../infrastructure/persistence/EventStore';
+import { PointInTimeService } from '../../application/services/PointInTimeService';
+import { SportRegistry } from '../../config/sports';
 
 export function createStatsRoutes(
   gameRepository: GameRepository,
-  eventStore: EventStore
+  eventStore: EventStore,
+  sportRegistry: SportRegistry
 ): Router {
   const router = Router();
-  const controller = new GameController(gameRepository, eventStore);
+  const controller = new GameController(
+    gameRepository,
+    eventStore,
+    sportRegistry,
+    new PointInTimeService(eventStore, gameRepository)
+  );
 
   router.get('/', (req, res) => controller.getStats(req, res));
 
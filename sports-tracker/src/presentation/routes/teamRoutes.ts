@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { TeamController } from '../controllers/TeamController';
+import { TeamService } from '../../application/services/TeamService';
+import { SportRegistry } from '../../config/sports';
+
+export function createTeamRoutes(
+  teamService: TeamService,
+  sportRegistry: SportRegistry
+): Router {
+  const router = Router();
+  const controller = new TeamController(teamService, sportRegistry);
+
+  router.get('/', (req, res) => controller.list(req, res));
+
+  router.get('/:a/vs/:b', (req, res) => controller.headToHead(req, res));
+
+  router.get('/:id/games', (req, res) => controller.getGames(req, res));
+
+  router.get('/:id', (req, res) => controller.getById(req, res));
+
+  return router;
+}
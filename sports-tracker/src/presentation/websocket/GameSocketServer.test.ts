@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { GameEventBus } from '../../application/events/GameEventBus';
+import { GameSocketServer } from './GameSocketServer';
+
+const listen = (server: Server) =>
+  new Promise<number>(resolve => server.listen(0, () => resolve((server.address() as AddressInfo).port)));
+
+// Resolves with every message the client receives, in order
+const connect = (port: number) =>
+  new Promise<{ socket: WebSocket; next: () => Promise<any> }>((resolve, reject) => {
+    const socket = new WebSocket(`ws://localhost:${port}/ws`);
+    const queue: any[] = [];
+    const waiting: ((message: any) => void)[] = [];
+
+    socket.on('message', data => {
+      const message = JSON.parse(data.toString());
+      const waiter = waiting.shift();
+      waiter ? waiter(message) : queue.push(message);
+    });
+    socket.on('error', reject);
+    socket.on('open', () =>
+      resolve({
+        socket,
+        next: () => (queue.length > 0 ? Promise.resolve(queue.shift()) : new Promise(r => waiting.push(r)))
+      })
+    );
+  });
+
+test('answers non-object JSON frames with an error and keeps serving', { timeout: 5000 }, async t => {
+  const server = createServer();
+  const sockets = new GameSocketServer(new GameEventBus(), { heartbeatInterval: 60000 });
+  sockets.attach(server);
+  const port = await listen(server);
+  t.after(() => {
+    sockets.close();
+    server.closeAllConnections();
+    server.close();
+  });
+
+  const { socket, next } = await connect(port);
+  assert.equal((await next()).type, 'welcome');
+
+  for (const frame of ['null', '42', '"subscribe"', '{"type":7}']) {
+    socket.send(frame);
+    const reply = await next();
+    assert.equal(reply.type, 'error', `frame ${frame}`);
+    assert.match(reply.error, /JSON object with a string "type"/);
+  }
+
+  socket.send(JSON.stringify({ type: 'ping', requestId: 'after' }));
+  const pong = await next();
+  assert.equal(pong.type, 'pong');
+  assert.equal(pong.requestId, 'after');
+
+  socket.close();
+});
@@ -0,0 +1,269 @@
+import { Server } from 'http';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { GameEventBus, GameUpdate } from '../../application/events/GameEventBus';
+import { SocketClientMessage, SocketServerMessage } from '../dto/GameResponseDto';
+import { gameEntityToResponseDto, toEventResponseDto } from '../mappers/GameMapper';
+
+export interface GameSocketServerOptions {
+  path?: string;
+  heartbeatInterval?: number;
+  // A client whose unsent data exceeds this is disconnected as a slow consumer
+  maxBufferedBytes?: number;
+  maxSubscriptions?: number;
+}
+
+interface ClientState {
+  topics: Set<string>;
+  isAlive: boolean;
+}
+
+// Close code 1013 "Try Again Later" tells the client it fell behind
+const SLOW_CONSUMER_CLOSE_CODE = 1013;
+const TOPIC_PATTERN = /^(game:[\w.\-~]+|sport:[A-Z_]+|live)$/;
+
+// Topic based WebSocket fan-out of committed game events. Topics are
+// "game:<gameId>", "sport:<SPORT>" and "live".
+export class GameSocketServer {
+  private readonly eventBus: GameEventBus;
+  private readonly path: string;
+  private readonly heartbeatInterval: number;
+  private readonly maxBufferedBytes: number;
+  private readonly maxSubscriptions: number;
+  private readonly clients = new Map<WebSocket, ClientState>();
+  private wss?: WebSocketServer;
+  private heartbeatId?: NodeJS.Timeout;
+  private unsubscribe?: () => void;
+
+  constructor(eventBus: GameEventBus, options: GameSocketServerOptions = {}) {
+    this.eventBus = eventBus;
+    this.path = options.path || '/ws';
+    this.heartbeatInterval = options.heartbeatInterval || 30000;
+    this.maxBufferedBytes = options.maxBufferedBytes || 1024 * 1024;
+    this.maxSubscriptions = options.maxSubscriptions || 50;
+  }
+
+  attach(server: Server): void {
+    this.wss = new WebSocketServer({ server, path: this.path });
+
+    this.wss.on('connection', socket => this.handleConnection(socket));
+
+    this.unsubscribe = this.eventBus.subscribe(update => this.broadcast(update));
+
+    this.heartbeatId = setInterval(() => this.checkHeartbeats(), this.heartbeatInterval);
+
+    console.log(`WebSocket server listening on ${this.path}`);
+  }
+
+  close(): void {
+    if (this.heartbeatId) {
+      clearInterval(this.heartbeatId);
+      this.heartbeatId = undefined;
+    }
+
+    this.unsubscribe?.();
+    this.clients.forEach((state, socket) => socket.close(1001, 'Server shutting down'));
+    this.clients.clear();
+    this.wss?.close();
+  }
+
+  getClientCount(): number {
+    return this.clients.size;
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    const state: ClientState = { topics: new Set(), isAlive: true };
+    this.clients.set(socket, state);
+
+    socket.on('pong', () => {
+      state.isAlive = true;
+    });
+
+    socket.on('message', data => this.handleMessage(socket, state, data));
+
+    socket.on('close', () => {
+      this.clients.delete(socket);
+    });
+
+    socket.on('error', error => {
+      console.error('WebSocket client error:', error);
+    });
+
+    this.send(socket, {
+      type: 'welcome',
+      heartbeatInterval: this.heartbeatInterval,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  private handleMessage(socket: WebSocket, state: ClientState, data: RawData): void {
+    // Any traffic proves the client is still there
+    state.isAlive = true;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data.toString());
+    } catch {
+      this.sendError(socket, 'Message must be valid JSON');
+      return;
+    }
+
+    // null, numbers and strings are valid JSON too
+    if (!parsed || typeof parsed !== 'object' || typeof (parsed as any).type !== 'string') {
+      this.sendError(socket, 'Message must be a JSON object with a string "type"');
+      return;
+    }
+
+    const message = parsed as SocketClientMessage;
+
+    switch (message.type) {
+      case 'subscribe': {
+        const topics = this.normalizeTopics(message.topics);
+        const invalid = topics.filter(topic => !TOPIC_PATTERN.test(topic));
+
+        if (topics.length === 0 || invalid.length > 0) {
+          this.sendError(
+            socket,
+            `Invalid topics: ${invalid.join(', ') || '(none)'}. Use game:<id>, sport:<SPORT> or live`,
+            message.requestId
+          );
+          return;
+        }
+
+        const newTopics = topics.filter(topic => !state.topics.has(topic));
+        if (state.topics.size + newTopics.length > this.maxSubscriptions) {
+          this.sendError(
+            socket,
+            `Subscription limit of ${this.maxSubscriptions} topics exceeded`,
+            message.requestId
+          );
+          return;
+        }
+
+        newTopics.forEach(topic => state.topics.add(topic));
+        this.send(socket, {
+          type: 'subscribed',
+          topics: Array.from(state.topics),
+          requestId: message.requestId,
+          timestamp: new Date().toISOString()
+        });
+        break;
+      }
+
+      case 'unsubscribe': {
+        this.normalizeTopics(message.topics).forEach(topic => state.topics.delete(topic));
+        this.send(socket, {
+          type: 'unsubscribed',
+          topics: Array.from(state.topics),
+          requestId: message.requestId,
+          timestamp: new Date().toISOString()
+        });
+        break;
+      }
+
+      case 'ping':
+        this.send(socket, {
+          type: 'pong',
+          requestId: message.requestId,
+          timestamp: new Date().toISOString()
+        });
+        break;
+
+      default:
+        this.sendError(socket, `Unknown message type '${(message as any).type}'`);
+    }
+  }
+
+  private broadcast(update: GameUpdate): void {
+    if (this.clients.size === 0) {
+      return;
+    }
+
+    const game = gameEntityToResponseDto(update.game);
+    const topics = [`game:${game.gameId}`, `sport:${game.sport}`];
+
+    // Games leaving LIVE are still sent to "live" so clients can drop them
+    const leftLive = update.events.some(event =>
+      (event.eventType === 'STATUS_CHANGED' || event.eventType === 'STATUS_CORRECTED') &&
+      event.payload?.previousStatus === 'LIVE'
+    );
+    if (game.status === 'LIVE' || leftLive) {
+      topics.push('live');
+    }
+
+    this.clients.forEach((state, socket) => {
+      const topic = topics.find(candidate => state.topics.has(candidate));
+      if (!topic) {
+        return;
+      }
+
+      for (const event of update.events) {
+        const sent = this.send(socket, {
+          type: 'event',
+          topic,
+          data: {
+            event: toEventResponseDto(event),
+            game
+          },
+          timestamp: new Date().toISOString()
+        });
+
+        if (!sent) {
+          break;
+        }
+      }
+    });
+  }
+
+  private checkHeartbeats(): void {
+    this.clients.forEach((state, socket) => {
+      if (!state.isAlive) {
+        console.log('WebSocket client missed heartbeat, terminating');
+        this.clients.delete(socket);
+        socket.terminate();
+        return;
+      }
+
+      state.isAlive = false;
+      socket.ping();
+    });
+  }
+
+  private send(socket: WebSocket, message: SocketServerMessage): boolean {
+    if (socket.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+
+    if (socket.bufferedAmount > this.maxBufferedBytes) {
+      console.warn(`WebSocket client exceeded ${this.maxBufferedBytes} buffered bytes, disconnecting`);
+      this.clients.delete(socket);
+      socket.close(SLOW_CONSUMER_CLOSE_CODE, 'Slow consumer');
+      return false;
+    }
+
+    socket.send(JSON.stringify(message));
+    return true;
+  }
+
+  private sendError(socket: WebSocket, error: string, requestId?: string): void {
+    this.send(socket, {
+      type: 'error',
+      error,
+      requestId,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  private normalizeTopics(topics: unknown): string[] {
+    if (!Array.isArray(topics)) {
+      return [];
+    }
+
+    return topics
+      .filter((topic): topic is string => typeof topic === 'string')
+      .map(topic => {
+        const [kind, ...rest] = topic.trim().split(':');
+        const value = rest.join(':');
+        return kind === 'sport' ? `sport:${value.toUpperCase()}` : topic.trim();
+      });
+  }
+}
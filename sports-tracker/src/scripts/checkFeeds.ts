@@ -0,0 +1,95 @@
+import fs from 'fs';
+import path from 'path';
+import { MappingAdapter } from '../infrastructure/adapters/mapping/MappingAdapter';
+import { FEED_SPEC_DIR, loadFeedSpec } from '../infrastructure/adapters/mapping/FeedSpec';
+import { ResilientHttpClient } from '../infrastructure/http/ResilientHttpClient';
+
+// Maps each feed spec's fixture (config/feeds/fixtures/<name>.json) and
+// reports what came out. Usage: npm run check:feeds [-- soccer.json ...]
+const FIXTURE_DIR = path.join(FEED_SPEC_DIR, 'fixtures');
+
+async function checkFeed(file: string): Promise<string[]> {
+  const problems: string[] = [];
+  const fixturePath = path.join(FIXTURE_DIR, file);
+
+  if (!fs.existsSync(fixturePath)) {
+    return [`no fixture at ${path.relative(process.cwd(), fixturePath)}`];
+  }
+
+  const spec = loadFeedSpec(file);
+  const sport = path.basename(file, '.json').toUpperCase();
+  // Fixtures are mapped directly; nothing is fetched
+  const adapter = new MappingAdapter(spec, { sport, apiUrl: '', http: new ResilientHttpClient(sport) });
+
+  // Unmapped statuses only warn at runtime; here they fail the check
+  const warn = console.warn;
+  console.warn = (...args: any[]) => problems.push(args.join(' '));
+
+  try {
+    const { games, rejected } = await adapter.mapResponse(JSON.parse(fs.readFileSync(fixturePath, 'utf8')));
+
+    if (games.length === 0) {
+      problems.push('fixture maps to no games');
+    }
+
+    rejected.forEach(record => {
+      problems.push(`record ${record.index} rejected: ${record.reason}`);
+    });
+
+    games.forEach(game => {
+      const data = game.toObject();
+      const missing = ['gameId', 'team1', 'team2'].filter(
+        field => !data[field] || data[field] === 'undefined'
+      );
+      if (missing.length > 0) {
+        problems.push(`${data.gameId}: missing ${missing.join(', ')}`);
+      }
+
+      const unlisted = game.getEvents()
+        .map(event => event.eventType)
+        .filter(type => !adapter.getKnownEventTypes().includes(type));
+      if (unlisted.length > 0) {
+        problems.push(`${data.gameId}: event types not in events.types: ${Array.from(new Set(unlisted)).join(', ')}`);
+      }
+
+      console.log(
+        `  ${data.gameId}  ${data.team1} ${data.score1}-${data.score2} ${data.team2}  ` +
+        `${data.status}  "${data.currentTime}"  ${game.getEvents().length} events` +
+        (data.sportState ? `  sportState: ${data.sportState.kind}` : '')
+      );
+    });
+  } catch (error) {
+    problems.push((error as Error).message);
+  } finally {
+    console.warn = warn;
+  }
+
+  return problems;
+}
+
+async function main(): Promise<void> {
+  const files = process.argv.length > 2
+    ? process.argv.slice(2)
+    : fs.readdirSync(FEED_SPEC_DIR).filter(file => file.endsWith('.json'));
+
+  let failed = 0;
+
+  for (const file of files) {
+    console.log(file);
+
+    let problems: string[];
+    try {
+      problems = await checkFeed(file);
+    } catch (error) {
+      problems = [(error as Error).message];
+    }
+
+    problems.forEach(problem => console.log(`  ✗ ${problem}`));
+    if (problems.length > 0) failed++;
+  }
+
+  console.log(`\n${files.length - failed}/${files.length} feed specs OK`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -3,79 +3,172 @@ import cors from 'cors';
 import dotenv from 'dotenv';
 import { connectDatabase } from './database';
 
-// Adapters
-import { SoccerAdapter } from './infrastructure/adapters/SoccerAdapter';
-import { TennisAdapter } from './infrastructure/adapters/TennisAdapter';
-import { HockeyAdapter } from './infrastructure/adapters/HockeyAdapter';
+// Sports
+import { SportRegistry } from './config/sports';
+import { loadTeamSeeds } from './config/teams';
 
 // Repositories
 import { EventStore } from './infrastructure/persistence/EventStore';
 import { GameRepository } from './infrastructure/persistence/GameRepository';
+import { GameUnitOfWork } from './infrastructure/persistence/GameUnitOfWork';
+import { OutboxRepository } from './infrastructure/persistence/OutboxRepository';
+import { IngestRequestRepository } from './infrastructure/persistence/IngestRequestRepository';
+import { QuarantineRepository } from './infrastructure/persistence/QuarantineRepository';
+import { TeamRepository } from './infrastructure/persistence/TeamRepository';
+import { StandingsRepository } from './infrastructure/persistence/StandingsRepository';
 
-// Application Service
+// Messaging
+import { KafkaEventPublisher } from './infrastructure/messaging/KafkaEventPublisher';
+
+// Application Services
 import { GameSyncService } from './application/services/GameSyncService';
+import { GameRebuildService } from './application/services/GameRebuildService';
+import { OutboxRelay } from './application/services/OutboxRelay';
+import { SourceHealthTracker } from './application/services/SourceHealthTracker';
+import { SyncScheduler } from './application/services/SyncScheduler';
+import { IngestService } from './application/services/IngestService';
+import { QuarantineService } from './application/services/QuarantineService';
+import { TeamService } from './application/services/TeamService';
+import { StandingsService } from './application/services/StandingsService';
+import { GameEventBus } from './application/events/GameEventBus';
 
 // Routes
 import { createGameRoutes } from './presentation/routes/gameRoutes';
 import { createStatsRoutes } from './presentation/routes/statsRoutes';
+import { createAdminRoutes } from './presentation/routes/adminRoutes';
+import { createHealthRoutes } from './presentation/routes/healthRoutes';
+import { createMetricsRoutes } from './presentation/routes/metricsRoutes';
+import { createIngestRoutes } from './presentation/routes/ingestRoutes';
+import { createTeamRoutes } from './presentation/routes/teamRoutes';
+import { createStandingsRoutes } from './presentation/routes/standingsRoutes';
+import { createEventRoutes } from './presentation/routes/eventRoutes';
+import { captureRawBody } from './presentation/middleware/webhookSignature';
+
+// Metrics
+import { registerLiveGamesGauge } from './infrastructure/metrics/metrics';
+import { httpMetrics } from './presentation/middleware/httpMetrics';
+
+// WebSocket
+import { GameSocketServer } from './presentation/websocket/GameSocketServer';
 
 dotenv.config();
 
 const app = express();
 const PORT = process.env.PORT || 4000;
+const sportRegistry = new SportRegistry();
 
 // Middleware
 app.use(cors());
+// Before the app-wide parser, which would parse without keeping the raw body
+app.use('/api/ingest', express.json({ verify: captureRawBody, limit: '1mb' }));
 app.use(express.json());
+app.use(httpMetrics);
 
 async function initializeApp() {
   await connectDatabase();
 
-  const soccerAdapter = new SoccerAdapter(
-    process.env.SOCCER_API_URL || 'http://localhost:3001'
-  );
-  const tennisAdapter = new TennisAdapter(
-    process.env.TENNIS_API_URL || 'http://localhost:3002'
-  );
-  const hockeyAdapter = new HockeyAdapter(
-    process.env.HOCKEY_API_URL || 'http://localhost:3003'
-  );
-
-  const adapters = [soccerAdapter, tennisAdapter, hockeyAdapter];
-
   const eventStore = new EventStore();
   const gameRepository = new GameRepository();
 
-  const pollInterval = parseInt(process.env.POLL_INTERVAL || '5000');
+  const sequenced = await eventStore.assignMissingSequences();
+  if (sequenced > 0) {
+    console.log(`Numbered ${sequenced} earlier event(s) in the global sequence`);
+  }
+
+  // Adapters resolve team names through it while mapping
+  const teamRepository = new TeamRepository();
+  const teamService = new TeamService(teamRepository, gameRepository);
+  await teamService.seed(loadTeamSeeds());
+
+  const adapters = sportRegistry.createAdapters(teamService);
+
+  registerLiveGamesGauge(gameRepository, sportRegistry.getIds());
+  const outboxRepository = new OutboxRepository();
+  const unitOfWork = new GameUnitOfWork(eventStore, gameRepository, outboxRepository);
+
+  // Without brokers nothing relays: messages stay pending in the outbox
+  // until KAFKA_BROKERS is set
+  const kafkaBrokers = process.env.KAFKA_BROKERS;
+  let outboxRelay: OutboxRelay | undefined;
+  if (kafkaBrokers) {
+    outboxRelay = new OutboxRelay(
+      outboxRepository,
+      new KafkaEventPublisher(kafkaBrokers.split(',').map(broker => broker.trim())),
+      parseInt(process.env.OUTBOX_POLL_INTERVAL || '1000')
+    );
+    await outboxRelay.start();
+  } else {
+    console.warn('KAFKA_BROKERS not set: outbox messages stay pending until a broker is configured');
+  }
+
+  const eventBus = new GameEventBus();
+
+  const standingsService = new StandingsService(
+    new StandingsRepository(),
+    gameRepository,
+    teamRepository,
+    eventStore,
+    sportRegistry,
+    parseInt(process.env.STANDINGS_POLL_INTERVAL || '5000')
+  );
+  const stopStandings = standingsService.start(eventBus);
+
+  const sourceHealth = new SourceHealthTracker(
+    adapters,
+    parseInt(process.env.HEALTH_MAX_DATA_AGE_MS || '60000'),
+    new Map(sportRegistry.getEnabled().map(sport => [sport.id, sport.polling]))
+  );
+
+  const quarantineRepository = new QuarantineRepository();
   const syncService = new GameSyncService(
     adapters,
     eventStore,
     gameRepository,
-    pollInterval
+    unitOfWork,
+    eventBus,
+    sourceHealth,
+    quarantineRepository
   );
 
-  await syncService.startPolling();
+  const scheduler = new SyncScheduler(
+    syncService,
+    sportRegistry.getEnabled().map(sport => ({ sport: sport.id, polling: sport.polling }))
+  );
+
+  await scheduler.start();
 
   console.log('✅ Application initialized successfully!');
-  console.log(`🔄 Polling every ${pollInterval / 1000} seconds`);
 
-  return { syncService, gameRepository, eventStore };
+  const rebuildService = new GameRebuildService(eventStore, gameRepository);
+  const ingestService = new IngestService(syncService, new IngestRequestRepository());
+  const quarantineService = new QuarantineService(syncService, quarantineRepository);
+
+  return { scheduler, ingestService, quarantineService, teamService, standingsService, stopStandings, rebuildService, outboxRelay, eventBus, gameRepository, eventStore, sourceHealth };
 }
 
 async function start() {
   try {
-    const { syncService, gameRepository, eventStore } = await initializeApp();
+    const { scheduler, ingestService, quarantineService, teamService, standingsService, stopStandings, rebuildService, outboxRelay, eventBus, gameRepository, eventStore, sourceHealth } = await initializeApp();
 
-    app.use('/api/games', createGameRoutes(gameRepository, eventStore));
-    app.use('/api/stats', createStatsRoutes(gameRepository, eventStore));
-
-    app.get('/health', (req, res) => {
-      res.json({
-        status: 'ok',
-        message: 'Sports Tracker API is running!',
-        timestamp: new Date().toISOString()
-      });
-    });
+    app.use('/api/games', createGameRoutes(gameRepository, eventStore, eventBus, sportRegistry));
+    app.use('/api/events', createEventRoutes(eventStore, sportRegistry));
+    app.use('/api/teams', createTeamRoutes(teamService, sportRegistry));
+    app.use('/api/stats', createStatsRoutes(gameRepository, eventStore, sportRegistry));
+    app.use('/api/standings', createStandingsRoutes(standingsService, sportRegistry));
+    app.use('/api/admin', createAdminRoutes(
+      rebuildService,
+      quarantineService,
+      standingsService,
+      sportRegistry,
+      process.env.ADMIN_TOKEN || undefined
+    ));
+    app.use('/api/ingest', createIngestRoutes(
+      ingestService,
+      sportRegistry,
+      parseInt(process.env.WEBHOOK_TOLERANCE_SECONDS || '300')
+    ));
+    app.use('/health', createHealthRoutes(sourceHealth));
+    app.use('/metrics', createMetricsRoutes());
 
     app.get('/', (req, res) => {
       res.json({
@@ -83,13 +176,43 @@ async function start() {
         version: '1.0.0',
         endpoints: {
           health: '/health',
-          allGames: '/api/games',
+          liveness: '/health/live',
+          readiness: '/health/ready',
+          metrics: '/metrics (Prometheus)',
+          allGames: '/api/games?status=&sport=&team=&teamId=&from=&to=&dateField=&sort=&fields=&limit=&cursor=&asOf=',
           liveGames: '/api/games/live',
-          gameBySport: '/api/games/sport/:sport (soccer|tennis|hockey)',
-          gameById: '/api/games/:id',
+          gameStream: '/api/games/stream?sport=&status= (SSE)',
+          gameBySport: `/api/games/sport/:sport (${sportRegistry.getIds().join('|').toLowerCase()})`,
+          gameById: '/api/games/:id?asOf=',
           gameEvents: '/api/games/:id/events',
-          stats: '/api/stats'
+          gameEventStream: '/api/games/:id/stream (SSE)',
+          gameInstances: '/api/games/:id/instances',
+          eventFeed: '/api/events?type=&sport=&gameId=&from=&to=&limit=&cursor=',
+          teams: '/api/teams?sport=&limit=',
+          team: '/api/teams/:id',
+          teamGames: '/api/teams/:id/games?status=&limit=&cursor=',
+          headToHead: '/api/teams/:a/vs/:b?recent=',
+          standings: '/api/standings?sport=&competition=',
+          stats: '/api/stats',
+          websocket: 'ws://<host>/ws (topics: game:<id>, sport:<SPORT>, live)',
+          rebuildAll: 'POST /api/admin/rebuild',
+          rebuildGame: 'POST /api/admin/rebuild/:id',
+          driftReport: '/api/admin/drift',
+          quarantine: '/api/admin/quarantine?sport=&status=&limit=',
+          quarantinedRecord: '/api/admin/quarantine/:id',
+          reprocessQuarantined: 'POST /api/admin/quarantine/:id/reprocess',
+          rebuildStandings: 'POST /api/admin/standings/rebuild',
+          ingest: 'POST /api/ingest/:sport (X-Signature-256, X-Signature-Timestamp, Idempotency-Key)'
         },
+        sports: sportRegistry.getAll().map(sport => ({
+          id: sport.id,
+          name: sport.displayName,
+          enabled: sport.enabled,
+          score: sport.score,
+          games: `/api/games/sport/${sport.id.toLowerCase()}`,
+          topic: `sport:${sport.id}`,
+          ingest: sport.enabled && sport.webhookSecret ? `/api/ingest/${sport.id.toLowerCase()}` : null
+        })),
         timestamp: new Date().toISOString()
       });
     });
@@ -104,36 +227,68 @@ async function start() {
       });
     });
 
+    const socketServer = new GameSocketServer(eventBus, {
+      heartbeatInterval: parseInt(process.env.WS_HEARTBEAT_INTERVAL || '30000'),
+      maxBufferedBytes: parseInt(process.env.WS_MAX_BUFFERED_BYTES || '1048576')
+    });
+
     // Start Express server
-    app.listen(PORT, () => {
+    const server = app.listen(PORT, () => {
       console.log(`\n${'='.repeat(60)}`);
       console.log(`Sports Tracker API`);
       console.log(`${'='.repeat(60)}`);
       console.log(`\nServer: http://localhost:${PORT}`);
       console.log(`\nAPI Endpoints:`);
       console.log(`GET  /                          - API documentation`);
-      console.log(`GET  /health                    - Health check`);
-      console.log(`GET  /api/games                 - All games`);
+      console.log(`GET  /health                    - Health report (Mongo, sources)`);
+      console.log(`GET  /health/live               - Liveness probe`);
+      console.log(`GET  /health/ready              - Readiness probe (503 when stale)`);
+      console.log(`GET  /metrics                   - Prometheus metrics`);
+      console.log(`GET  /api/games                 - Games (filters, sort, cursor pages)`);
       console.log(`GET  /api/games/live            - Live games only`);
+      console.log(`GET  /api/games/stream          - Live updates (SSE)`);
       console.log(`GET  /api/games/sport/:sport    - Games by sport`);
-      console.log(`GET  /api/games/:id             - Single game`);
+      console.log(`GET  /api/games/:id             - Single game (?asOf= for a past state)`);
       console.log(`GET  /api/games/:id/events      - Game history`);
+      console.log(`GET  /api/games/:id/stream      - Game updates (SSE)`);
+      console.log(`GET  /api/games/:id/instances   - All matches under a provider ID`);
+      console.log(`GET  /api/events                - Events across games (sequence order, cursor)`);
+      console.log(`GET  /api/teams                 - Teams (stable IDs, aliases)`);
+      console.log(`GET  /api/teams/:id/games       - A team's games`);
+      console.log(`GET  /api/teams/:a/vs/:b        - Head-to-head record, recent results`);
+      console.log(`GET  /api/standings             - League tables (?sport=&competition=)`);
       console.log(`GET  /api/stats                 - Statistics`);
+      console.log(`WS   /ws                        - Topic subscriptions (WebSocket)`);
+      console.log(`POST /api/admin/rebuild         - Rebuild all games from events`);
+      console.log(`POST /api/admin/rebuild/:id     - Rebuild one game from events`);
+      console.log(`GET  /api/admin/drift           - Snapshot vs replay drift report`);
+      console.log(`GET  /api/admin/quarantine      - Rejected upstream records`);
+      console.log(`GET  /api/admin/quarantine/:id  - One rejected record, with its payload`);
+      console.log(`POST /api/admin/quarantine/:id/reprocess - Map and record it again`);
+      console.log(`POST /api/admin/standings/rebuild - Recount standings from finished games`);
+      console.log(`POST /api/ingest/:sport         - Provider push (signed, idempotent)`);
       console.log(`\nData Sources:`);
-      console.log(`Soccer: ${process.env.SOCCER_API_URL}`);
-      console.log(`Tennis: ${process.env.TENNIS_API_URL}`);
-      console.log(`Hockey: ${process.env.HOCKEY_API_URL}`);
+      sportRegistry.getAll().forEach(sport => {
+        console.log(`${sport.displayName}: ${sport.enabled ? sport.apiUrl : 'disabled'}`);
+      });
       console.log(`\nDatabase:`);
       console.log(`Events collection (event sourcing)`);
       console.log(`Games collection (current state)`);
+      console.log(`\nEvent Publishing:`);
+      console.log(`Kafka: ${process.env.KAFKA_BROKERS || 'disabled (in-memory)'}`);
       console.log(`\n${'='.repeat(60)}`);
       console.log(`Press Ctrl+C to stop\n`);
     });
 
+    socketServer.attach(server);
+
     // Graceful shutdown
     process.on('SIGINT', async () => {
       console.log('\nShutting down gracefully...');
-      syncService.stopPolling();
+      scheduler.stop();
+      stopStandings();
+      socketServer.close();
+      await outboxRelay?.stop();
       process.exit(0);
     });
 